@@ -4,6 +4,11 @@ import { KeyboardControls } from "@react-three/drei";
 import "@fontsource/inter";
 import SpaceGame from "./components/SpaceGame";
 import MissionUI from "./components/MissionUI";
+import MissionEndScreen from "./components/MissionEndScreen";
+import PlanningUI from "./components/PlanningUI";
+import { Route, Switch } from "wouter";
+import DesignEditor from "./pages/design-editor";
+import NotFound from "./pages/not-found";
 
 // WebGL compatibility check
 function checkWebGLSupport(): boolean {
@@ -25,10 +30,12 @@ const controls = [
   { name: "radial", keys: ["KeyQ"] },
   { name: "antiradial", keys: ["KeyE"] },
   { name: "burn", keys: ["Space"] },
+  { name: "jettison", keys: ["KeyJ"] },
   { name: "warp", keys: ["KeyT"] },
+  { name: "pause", keys: ["KeyP"] },
 ];
 
-function App() {
+function Mission() {
   const [webGLSupported, setWebGLSupported] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -158,12 +165,9 @@ function App() {
         >
           <color attach="background" args={["#000008"]} />
           
-          {/* Simplified lighting for better compatibility */}
+          {/* Simplified lighting for better compatibility; the Sun's
+              directional light is placed by SpaceGame from the ephemeris */}
           <ambientLight intensity={0.3} />
-          <directionalLight 
-            position={[10, 10, 5]} 
-            intensity={0.8}
-          />
           
           <Suspense fallback={null}>
             <KeyboardControls map={controls}>
@@ -173,8 +177,20 @@ function App() {
         </Canvas>
         
         <MissionUI />
+        <PlanningUI />
+        <MissionEndScreen />
     </div>
   );
 }
 
+function App() {
+  return (
+    <Switch>
+      <Route path="/" component={Mission} />
+      <Route path="/designer" component={DesignEditor} />
+      <Route component={NotFound} />
+    </Switch>
+  );
+}
+
 export default App;
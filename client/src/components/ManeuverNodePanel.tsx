@@ -0,0 +1,215 @@
+import { useMemo, useState } from "react";
+import { useSpaceGame, ScheduledBurn } from "../lib/stores/useSpaceGame";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { burnBasis, fromInertial, referenceAmounts, referenceComponents, toInertial } from "@shared/physics/frames";
+import { predictManeuvers, timeToTrueAnomaly } from "@shared/physics/maneuverNodes";
+import { stageBudgets, totalDeltaV } from "@shared/physics/spacecraftDesign";
+import { formatDuration } from "@shared/physics/time";
+import { magnitude } from "@shared/physics/vectorMath";
+
+const DEG = Math.PI / 180;
+
+type Placement = 'time' | 'trueAnomaly';
+
+interface NodeForm {
+  placement: Placement;
+  value: number;       // s after the previous node, or true anomaly (°)
+  prograde: number;    // m/s
+  normal: number;
+  radial: number;
+}
+
+const EMPTY_FORM: NodeForm = { placement: 'time', value: 600, prograde: 0, normal: 0, radial: 0 };
+
+// Maneuver nodes: burns placed on the orbit ahead, chained so each node
+// starts from the orbit the one before it leaves
+export default function ManeuverNodePanel() {
+  const {
+    spacecraft, earth, moon, gameTime, scheduledBurns,
+    scheduleBurns, updateScheduledBurn, removeScheduledBurn, cancelScheduledBurns
+  } = useSpaceGame();
+  const [form, setForm] = useState<NodeForm>(EMPTY_FORM);
+  const [editing, setEditing] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const primaryBody = spacecraft.primary === 'moon' ? moon : earth;
+  const predictions = useMemo(
+    () => predictManeuvers(spacecraft, gameTime, scheduledBurns, primaryBody),
+    [spacecraft, gameTime, scheduledBurns, primaryBody]
+  );
+
+  const plannedDeltaV = scheduledBurns.reduce((total, burn) => total + magnitude(burn.deltaV) * 1000, 0);
+  // Every stage still aboard, jettisoned as each runs dry
+  const availableDeltaV = totalDeltaV(stageBudgets(spacecraft.design, spacecraft.stage, spacecraft.fuel));
+
+  // The node a new or edited node is placed after: the last one, or the one
+  // before the node being edited. A node that fires mid-edit is gone, so the
+  // form falls back to adding a new one.
+  const editingIndex = scheduledBurns.findIndex((burn) => burn.id === editing);
+  const editedBurn = editingIndex >= 0 ? scheduledBurns[editingIndex] : null;
+  const previousIndex = editedBurn ? editingIndex - 1 : scheduledBurns.length - 1;
+
+  const nodeTime = (): number | null => {
+    const baseTime = previousIndex >= 0 ? scheduledBurns[previousIndex].time : gameTime;
+    if (form.placement === 'time') return baseTime + Math.max(0, form.value);
+    const baseElements = previousIndex >= 0 ? predictions[previousIndex].elements : spacecraft.orbitalElements;
+    const wait = timeToTrueAnomaly(baseElements, form.value * DEG, primaryBody.mu);
+    return wait === null ? null : baseTime + wait;
+  };
+
+  const save = () => {
+    const time = nodeTime();
+    if (time === null) {
+      setError('The orbit does not reach that true anomaly');
+      return;
+    }
+    const deltaV = referenceComponents('vnb', { prograde: form.prograde / 1000, normal: form.normal / 1000, radial: form.radial / 1000 });
+    if (editedBurn) {
+      updateScheduledBurn(editedBurn.id, { time, deltaV, frame: 'vnb' });
+    } else {
+      scheduleBurns([{ time, deltaV, frame: 'vnb', label: `Node ${scheduledBurns.length + 1}` }]);
+    }
+    setError(null);
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  };
+
+  // Load a node into the form, its Δv re-expressed as prograde / normal /
+  // radial at the predicted state where it fires
+  const edit = (burn: ScheduledBurn, index: number) => {
+    const before = predictions[index].before;
+    const { prograde, normal, radial } = referenceAmounts(
+      'vnb',
+      fromInertial(toInertial(burn.deltaV, burnBasis(burn.frame, before)), burnBasis('vnb', before))
+    );
+    const previousTime = index > 0 ? scheduledBurns[index - 1].time : gameTime;
+    setForm({
+      placement: 'time',
+      value: Math.round(burn.time - previousTime),
+      prograde: prograde * 1000,
+      normal: normal * 1000,
+      radial: radial * 1000
+    });
+    setEditing(burn.id);
+    setError(null);
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+  };
+
+  const field = (key: 'value' | 'prograde' | 'normal' | 'radial', label: string, step = 1) => (
+    <div>
+      <span className="text-gray-400 text-xs">{label}</span>
+      <Input
+        type="number"
+        step={step}
+        className="h-8 mt-1 bg-transparent"
+        value={form[key]}
+        onChange={(e) => setForm({ ...form, [key]: Number(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="w-80 bg-black/80 text-white border-gray-600">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Maneuver Nodes</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {scheduledBurns.map((burn, i) => {
+          const { elements } = predictions[i];
+          // r_p = p / (1 + e) holds for every conic, parabolas included
+          const semiLatusRectum = elements.semiLatusRectum ?? elements.semiMajorAxis * (1 - elements.eccentricity ** 2);
+          const periapsis = semiLatusRectum / (1 + elements.eccentricity) - primaryBody.radius;
+          const apoapsis = elements.eccentricity < 1
+            ? `${(elements.semiMajorAxis * (1 + elements.eccentricity) - primaryBody.radius).toFixed(0)} km`
+            : 'escape';
+          return (
+            <div
+              key={burn.id}
+              className={`p-2 rounded border ${burn.id === editing ? 'border-blue-500' : 'border-gray-700'}`}
+            >
+              <div className="flex justify-between">
+                <span className="font-semibold">{burn.label}</span>
+                <span className="font-mono">T-{formatDuration(Math.max(0, burn.time - gameTime))}</span>
+              </div>
+              <div className="text-xs text-gray-400">
+                Δv {(magnitude(burn.deltaV) * 1000).toFixed(1)} m/s → Pe {periapsis.toFixed(0)} km, Ap {apoapsis}
+              </div>
+              <div className="flex gap-2 mt-1">
+                <Button onClick={() => edit(burn, i)} variant="outline" size="sm" className="flex-1 h-7">
+                  Edit
+                </Button>
+                <Button onClick={() => removeScheduledBurn(burn.id)} variant="outline" size="sm" className="flex-1 h-7">
+                  Delete
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+
+        {scheduledBurns.length > 0 && (
+          <div className="grid grid-cols-2 gap-1 text-xs">
+            <span className="text-gray-400">Planned Δv</span>
+            <span className="text-right">{plannedDeltaV.toFixed(1)} m/s</span>
+            <span className="text-gray-400">Δv remaining after</span>
+            <span className={`text-right ${plannedDeltaV > availableDeltaV ? 'text-red-400' : ''}`}>
+              {(availableDeltaV - plannedDeltaV).toFixed(1)} m/s
+            </span>
+          </div>
+        )}
+
+        <div className="pt-2 border-t border-gray-700 space-y-2">
+          <div className="font-semibold">{editedBurn ? 'Edit Node' : 'New Node'}</div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <span className="text-gray-400 text-xs">Place by</span>
+              <Select
+                value={form.placement}
+                onValueChange={(value) => setForm({ ...form, placement: value as Placement, value: value === 'time' ? 600 : 0 })}
+              >
+                <SelectTrigger className="h-8 mt-1 bg-transparent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="time">Time</SelectItem>
+                  <SelectItem value="trueAnomaly">True anomaly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {field('value', form.placement === 'time'
+              ? (previousIndex >= 0 ? 's after previous' : 's from now')
+              : 'True anomaly (°)')}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {field('prograde', 'Prograde', 0.1)}
+            {field('normal', 'Normal', 0.1)}
+            {field('radial', 'Radial', 0.1)}
+          </div>
+          {error && <div className="text-red-400 text-xs">{error}</div>}
+          <div className="flex gap-2">
+            <Button onClick={save} size="sm" className="flex-1">
+              {editedBurn ? 'Save Node' : 'Add Node'}
+            </Button>
+            {editedBurn && (
+              <Button onClick={cancelEdit} variant="outline" size="sm" className="flex-1">
+                Cancel
+              </Button>
+            )}
+          </div>
+          {scheduledBurns.length > 0 && !editedBurn && (
+            <Button onClick={cancelScheduledBurns} variant="outline" size="sm" className="w-full">
+              Delete All Nodes
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
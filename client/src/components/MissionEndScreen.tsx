@@ -0,0 +1,77 @@
+import { useSpaceGame, MissionEndReason } from "../lib/stores/useSpaceGame";
+import { useGame } from "../lib/stores/useGame";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "./ui/card";
+import { formatMissionElapsedTime } from "@shared/physics/time";
+import { isMissionFailure } from "@shared/simulationEngine";
+import { AlertTriangle, Flame, Trophy } from "lucide-react";
+
+const END_TITLES: Record<MissionEndReason, string> = {
+  landed: 'Touchdown!',
+  hardLanding: 'Hard Landing',
+  crash: 'Mission Failed: Crash',
+  reentry: 'Mission Failed: Reentry'
+};
+
+const END_SUMMARIES: Record<MissionEndReason, string> = {
+  landed: 'The spacecraft settled gently on the surface.',
+  hardLanding: 'The spacecraft is down, but the landing gear took a beating.',
+  crash: 'The spacecraft hit the surface too fast to survive.',
+  reentry: 'The orbit decayed into the dense atmosphere and the spacecraft burned up.'
+};
+
+function EndIcon({ reason }: { reason: MissionEndReason }) {
+  if (reason === 'landed') return <Trophy className="text-yellow-500" />;
+  if (reason === 'hardLanding') return <AlertTriangle className="text-amber-500" />;
+  return <Flame className="text-red-500" />;
+}
+
+// Shown once the engine ends the mission: how and when it ended, and a restart
+export default function MissionEndScreen() {
+  const phase = useGame((state) => state.phase);
+  const { endReason, gameTime, spacecraft, missionEvents, score, resetMission } = useSpaceGame();
+
+  if (phase !== 'ended' || !endReason) return null;
+
+  const finalEvent = [...missionEvents].reverse().find((event) => event.type === 'milestone');
+  const deltaVSpent = missionEvents.reduce((total, event) => total + (event.deltaV ?? 0), 0);
+  const failed = isMissionFailure(endReason);
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-20 bg-black/50">
+      <Card className="w-full max-w-md mx-4 shadow-lg bg-black/90 text-white border-gray-600">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-center gap-2">
+            <EndIcon reason={endReason} />
+            {END_TITLES[endReason]}
+          </CardTitle>
+        </CardHeader>
+
+        <CardContent className="space-y-3">
+          <p className="text-center text-gray-300">{END_SUMMARIES[endReason]}</p>
+          {finalEvent && (
+            <p className={`text-center text-sm ${failed ? 'text-red-400' : 'text-green-400'}`}>
+              {finalEvent.description}
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-1 text-sm">
+            <span className="text-gray-400">Mission time</span>
+            <span className="text-right">{formatMissionElapsedTime(gameTime)}</span>
+            <span className="text-gray-400">Δv spent</span>
+            <span className="text-right">{deltaVSpent.toFixed(1)} m/s</span>
+            <span className="text-gray-400">Fuel left</span>
+            <span className="text-right">{spacecraft.fuel.toFixed(1)} kg</span>
+            <span className="text-gray-400">Score</span>
+            <span className="text-right">{score.toFixed(0)}</span>
+          </div>
+        </CardContent>
+
+        <CardFooter className="flex justify-center">
+          <Button onClick={() => resetMission()} className="w-full">
+            Restart Mission
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
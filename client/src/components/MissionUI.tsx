@@ -1,39 +1,206 @@
-import { useSpaceGame } from "../lib/stores/useSpaceGame";
+import { useRef, useState } from "react";
+import { Link } from "wouter";
+import { fromZodError } from "zod-validation-error";
+import { useSpaceGame, getMotionOptions, sunPositionAt, MissionSave, missionSaveSchema } from "../lib/stores/useSpaceGame";
+import { designChoices, useDesigns } from "../lib/stores/useDesigns";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Progress } from "./ui/progress";
 import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Switch } from "./ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { getInertialPosition } from "@shared/physics/sphereOfInfluence";
+import { MoonEphemerisMode } from "@shared/physics/ephemeris";
+import { dateToEpoch, epochAt, epochToDate, formatDuration, formatEpoch, formatMissionElapsedTime, SECONDS_PER_DAY } from "@shared/physics/time";
+import { angularMomentumRate, j2SecularRates, specificEnergyRate } from "@shared/physics/perturbations";
+import { Perturbation, perturbationAcceleration, perturbationForce, perturbationLabel } from "@shared/physics/hazards";
+import { ElementRates, gaussVariationalRates } from "@shared/physics/gaussEquations";
+import { calculateOrbitQuantities, perturbingForces } from "@shared/physics/orbitalMechanics";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+import { ChevronDown } from "lucide-react";
+import { totalAcceleration } from "@shared/physics/propagator";
+import { BurnReference, inertialToRtn } from "@shared/physics/frames";
+import { AtmosphereModel, atmosphericDensity } from "@shared/physics/atmosphere";
+import { eclipseState, illumination } from "@shared/physics/solarRadiation";
+import { burnDeltaV } from "@shared/physics/finiteBurn";
+import { stageBudgets, totalDeltaV } from "@shared/physics/spacecraftDesign";
+import { Scenario, scenarioSchema } from "@shared/scenario";
+
+const DEG = 180 / Math.PI;
+
+// What W/S, A/D and Q/E burn along in each reference
+const BURN_REFERENCES: Record<BurnReference, { label: string; keys: [string, string, string] }> = {
+  vnb: { label: 'Orbit (VNB)', keys: ['Prograde / Retrograde', 'Normal / Anti-normal', 'Radial out / in'] },
+  rtn: { label: 'Orbit (RTN)', keys: ['Along-track / back', 'Normal / Anti-normal', 'Radial out / in'] },
+  target: { label: 'Target', keys: ['Toward / away from target', 'Normal / Anti-normal', 'Across line of sight'] },
+  sun: { label: 'Sun', keys: ['Sunward / anti-sunward', 'Normal / Anti-normal', 'Across line of sight'] }
+};
+
+type RateSource = 'all' | 'hazards';
+
+// Element rate rows: label, unit and scale from per-second rates to per-day display
+const ELEMENT_RATE_ROWS: { key: keyof ElementRates; label: string; unit: string; scale: number }[] = [
+  { key: 'semiMajorAxis', label: 'da/dt', unit: 'km/day', scale: SECONDS_PER_DAY },
+  { key: 'eccentricity', label: 'de/dt', unit: '/day', scale: SECONDS_PER_DAY },
+  { key: 'inclination', label: 'di/dt', unit: '°/day', scale: DEG * SECONDS_PER_DAY },
+  { key: 'longitudeOfAscendingNode', label: 'dΩ/dt', unit: '°/day', scale: DEG * SECONDS_PER_DAY },
+  { key: 'argumentOfPeriapsis', label: 'dω/dt', unit: '°/day', scale: DEG * SECONDS_PER_DAY },
+  { key: 'meanAnomaly', label: 'dM/dt - n', unit: '°/day', scale: DEG * SECONDS_PER_DAY }
+];
+
+// Save the current mission as a JSON file
+function downloadMission(save: object) {
+  const blob = new Blob([JSON.stringify(save, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "mission.json";
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+type MissionFile = { kind: 'save'; save: MissionSave } | { kind: 'scenario'; scenario: Scenario };
+
+// Read a mission saved by downloadMission, or a scenario file as the CLI
+// runs it; saves are told apart by their version field
+async function readMission(file: File): Promise<MissionFile> {
+  const contents = JSON.parse(await file.text());
+  if (contents?.version !== undefined) {
+    const parsed = missionSaveSchema.safeParse(contents);
+    if (!parsed.success) throw new Error(fromZodError(parsed.error).message);
+    return { kind: 'save', save: parsed.data };
+  }
+  const parsed = scenarioSchema.safeParse(contents);
+  if (!parsed.success) throw new Error(fromZodError(parsed.error).message);
+  return { kind: 'scenario', scenario: parsed.data };
+}
 
 export default function MissionUI() {
+  const [rateSource, setRateSource] = useState<RateSource>('all');
+  const [orbitOpen, setOrbitOpen] = useState(true);
+  const game = useSpaceGame();
+  const savedDesigns = useDesigns((state) => state.designs);
+  const [designKey, setDesignKey] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const missionFile = useRef<HTMLInputElement>(null);
   const { 
     spacecraft, 
+    earth,
     moon, 
     timeWarp, 
+    paused,
+    togglePause,
     missionEvents, 
+    hazards,
     score,
-    resetMission 
-  } = useSpaceGame();
+    gameTime,
+    activeBurn,
+    missionEpoch,
+    moonEphemeris,
+    zonalDegree,
+    atmosphere,
+    setZonalDegree,
+    setAtmosphere,
+    solarGravity,
+    solarRadiationPressure,
+    setSolarGravity,
+    setSolarRadiationPressure,
+    setMissionEpoch,
+    hazardSeed,
+    setHazardSeed,
+    setMoonEphemeris,
+    burnReference,
+    setBurnReference,
+    jettisonStage,
+    resetMission,
+    exportMission,
+    importMission,
+    loadScenario
+  } = game;
+
+  // The next mission flies the chosen design, or the current one until
+  // another is picked
+  const choices = designChoices(savedDesigns);
+  const selectedDesignKey = designKey ?? choices.find(({ design }) => design.name === spacecraft.design.name)?.key;
 
   // Calculate distance to moon
+  const spacecraftPosition = getInertialPosition(spacecraft.position, spacecraft.primary, earth, moon);
   const distanceToMoon = Math.sqrt(
-    Math.pow(spacecraft.position.x - moon.position.x, 2) +
-    Math.pow(spacecraft.position.y - moon.position.y, 2) +
-    Math.pow(spacecraft.position.z - moon.position.z, 2)
+    Math.pow(spacecraftPosition.x - moon.position.x, 2) +
+    Math.pow(spacecraftPosition.y - moon.position.y, 2) +
+    Math.pow(spacecraftPosition.z - moon.position.z, 2)
   );
 
   // Calculate mission progress (closer to moon = higher progress)
-  const maxDistance = 100; // Maximum expected distance
+  const maxDistance = Math.sqrt(moon.position.x ** 2 + moon.position.y ** 2 + moon.position.z ** 2); // Earth-Moon distance
   const progress = Math.max(0, Math.min(100, (maxDistance - distanceToMoon) / maxDistance * 100));
 
+  // Secular drift of the node and periapsis from the primary's oblateness (deg/day)
+  const primaryBody = spacecraft.primary === 'moon' ? moon : earth;
+  const secularRates = j2SecularRates(spacecraft.orbitalElements, primaryBody);
+  const driftScale = zonalDegree >= 2 ? DEG * SECONDS_PER_DAY : 0;
+
+  // Sunlight at the spacecraft (Earth-centred frame)
+  const sunlight = eclipseState(illumination(spacecraftPosition, sunPositionAt(gameTime, missionEpoch), [earth, moon]));
+  const sunlightLabel = { sunlit: 'Sunlit', penumbra: 'Penumbra', umbra: 'Eclipse' }[sunlight];
+
+  // Energy and angular momentum changes driven by active perturbation hazards (m²/s³, m²/s²)
+  const activePerturbations = hazards.filter((hazard): hazard is Perturbation => hazard.type === 'perturbation');
+  const perturbationRtn = perturbationAcceleration(hazards, spacecraft.mass);
+  const energyRate = specificEnergyRate(spacecraft, perturbationRtn) * 1e6;
+  const momentumRate = angularMomentumRate(spacecraft, perturbationRtn) * 1e6;
+
+  // Apsides, period, energy and timing about the current primary
+  const orbit = calculateOrbitQuantities(spacecraft.position, spacecraft.velocity, primaryBody);
+  const formatKm = (value: number) => Number.isFinite(value) ? `${value.toFixed(1)} km` : '∞';
+  const orbitRows: [string, string][] = [
+    ['Flight-path angle', `${(orbit.flightPathAngle * DEG).toFixed(2)}°`],
+    ['Periapsis alt.', formatKm(orbit.periapsisAltitude)],
+    ['Apoapsis alt.', formatKm(orbit.apoapsisAltitude)],
+    ['r_p / r_a', `${orbit.periapsisRadius.toFixed(0)} / ${Number.isFinite(orbit.apoapsisRadius) ? orbit.apoapsisRadius.toFixed(0) : '∞'} km`],
+    ['Period', formatDuration(orbit.period)],
+    ['Specific energy', `${orbit.specificEnergy.toFixed(3)} km²/s²`],
+    ['Angular momentum', `${orbit.angularMomentum.toFixed(0)} km²/s`],
+    ['Next periapsis', orbit.timeToPeriapsis === null ? '—' : formatDuration(orbit.timeToPeriapsis)],
+    ['Next apoapsis', orbit.timeToApoapsis === null ? '—' : formatDuration(orbit.timeToApoapsis)]
+  ];
+
+  // Gauss element rates from the perturbing acceleration at the current state
+  const rateAcceleration = rateSource === 'hazards'
+    ? perturbationRtn
+    : inertialToRtn(totalAcceleration(perturbingForces(spacecraft, earth, moon, {
+      ...getMotionOptions(game),
+      perturbations: [perturbationForce(hazards, spacecraft.mass)]
+    }), spacecraft, gameTime), spacecraft);
+  const elementRates = gaussVariationalRates(spacecraft.orbitalElements, primaryBody.mu, rateAcceleration);
+  // Report only the perturbation's share of dM/dt
+  const { semiMajorAxis: a, eccentricity: e } = spacecraft.orbitalElements;
+  elementRates.meanAnomaly -= e < 1 ? Math.sqrt(primaryBody.mu / a ** 3) : 0;
+
+  // Air density at the spacecraft; only Earth has an atmosphere
+  const density = spacecraft.primary === 'earth'
+    ? atmosphericDensity(spacecraft.orbitalElements.altitude, atmosphere)
+    : 0;
+
   return (
-    <div className="absolute top-4 left-4 space-y-4 z-10">
+    <div className="absolute top-4 left-4 space-y-4 z-10 max-h-[calc(100vh-2rem)] overflow-y-auto">
       {/* Mission Status */}
       <Card className="w-80 bg-black/80 text-white border-gray-600">
         <CardHeader className="pb-2">
           <CardTitle className="text-lg">Mission Control</CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
+          <div className="flex justify-between text-sm font-mono">
+            <span>{formatMissionElapsedTime(gameTime)}</span>
+            <span className="text-gray-400">{formatEpoch(epochAt(missionEpoch, gameTime))}</span>
+          </div>
           <div className="grid grid-cols-2 gap-2 text-sm">
+            <div>
+              <span className="text-gray-400">Orbiting:</span>
+              <br />
+              <span className="font-mono">{spacecraft.primary === 'moon' ? 'Moon' : 'Earth'}</span>
+            </div>
             <div>
               <span className="text-gray-400">Altitude:</span>
               <br />
@@ -58,6 +225,31 @@ export default function MissionUI() {
               <br />
               <span className="font-mono">{(spacecraft.orbitalElements.inclination * 180 / Math.PI).toFixed(1)}°</span>
             </div>
+            <div>
+              <span className="text-gray-400">RAAN:</span>
+              <br />
+              <span className="font-mono">{(spacecraft.orbitalElements.longitudeOfAscendingNode * DEG).toFixed(2)}°</span>
+            </div>
+            <div>
+              <span className="text-gray-400">Arg. Periapsis:</span>
+              <br />
+              <span className="font-mono">{(spacecraft.orbitalElements.argumentOfPeriapsis * DEG).toFixed(2)}°</span>
+            </div>
+            <div>
+              <span className="text-gray-400">Node Drift:</span>
+              <br />
+              <span className="font-mono">{(secularRates.nodalRate * driftScale).toFixed(3)}°/day</span>
+            </div>
+            <div>
+              <span className="text-gray-400">Apsidal Drift:</span>
+              <br />
+              <span className="font-mono">{(secularRates.apsidalRate * driftScale).toFixed(3)}°/day</span>
+            </div>
+            <div>
+              <span className="text-gray-400">Sunlight:</span>
+              <br />
+              <span className="font-mono">{sunlightLabel}</span>
+            </div>
           </div>
           
           <div>
@@ -93,16 +285,126 @@ export default function MissionUI() {
               <span className="font-mono">{spacecraft.mass.toFixed(1)} kg</span>
             </div>
           </div>
+
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">Stage {spacecraft.stage + 1}/{spacecraft.design.stages.length}</span>
+            <span className="font-mono">{spacecraft.design.stages[spacecraft.stage].name}</span>
+          </div>
+
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">Δv Remaining</span>
+            <span className="font-mono">
+              {totalDeltaV(stageBudgets(spacecraft.design, spacecraft.stage, spacecraft.fuel)).toFixed(0)} m/s
+            </span>
+          </div>
+
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">Engine</span>
+            <span className={`font-mono ${activeBurn ? 'text-orange-400' : ''}`}>
+              {activeBurn
+                ? `${burnDeltaV(activeBurn, gameTime).toFixed(1)} m/s, ${formatDuration(activeBurn.endTime - gameTime)} left`
+                : `Off (${spacecraft.thrust} N)`}
+            </span>
+          </div>
+
+          {spacecraft.stage < spacecraft.design.stages.length - 1 && (
+            <Button onClick={jettisonStage} variant="outline" size="sm" className="w-full">
+              Jettison {spacecraft.design.stages[spacecraft.stage].name}
+            </Button>
+          )}
+          
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">Air Density</span>
+            <span className="font-mono">{density.toExponential(2)} kg/m³</span>
+          </div>
+          
+          <div>
+            <span className="text-gray-400 text-sm">Perturbations:</span>
+            {activePerturbations.length === 0 ? (
+              <div className="text-xs text-gray-500">None active</div>
+            ) : (
+              <div className="space-y-1 mt-1">
+                {activePerturbations.map((perturbation) => (
+                  <div key={perturbation.id} className="flex justify-between text-xs">
+                    <span>{perturbationLabel(perturbation.source)}</span>
+                    <span className="font-mono">{perturbation.intensity.toFixed(2)} N, {Math.ceil(perturbation.timeRemaining)} s</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-2 text-sm mt-1">
+              <div>
+                <span className="text-gray-400">dE/dt:</span>
+                <br />
+                <span className="font-mono">{energyRate.toExponential(2)} W/kg</span>
+              </div>
+              <div>
+                <span className="text-gray-400">dh/dt:</span>
+                <br />
+                <span className="font-mono">{momentumRate.toExponential(2)} m²/s²</span>
+              </div>
+            </div>
+          </div>
           
           <div className="flex items-center justify-between">
             <span className="text-gray-400 text-sm">Time Warp</span>
-            <Badge variant={timeWarp > 1 ? "default" : "secondary"}>
-              {timeWarp}x
+            <Badge variant={timeWarp > 1 && !paused ? "default" : "secondary"}>
+              {paused ? 'Paused' : `${timeWarp}x`}
             </Badge>
           </div>
         </CardContent>
       </Card>
 
+      {/* Orbit */}
+      <Collapsible open={orbitOpen} onOpenChange={setOrbitOpen}>
+        <Card className="w-80 bg-black/80 text-white border-gray-600">
+          <CollapsibleTrigger asChild>
+            <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0 cursor-pointer">
+              <CardTitle className="text-lg">Orbit</CardTitle>
+              <ChevronDown size={18} className={orbitOpen ? "rotate-180 transition-transform" : "transition-transform"} />
+            </CardHeader>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <CardContent className="space-y-1 text-sm">
+              {orbitRows.map(([label, value]) => (
+                <div key={label} className="flex justify-between">
+                  <span className="text-gray-400">{label}</span>
+                  <span className="font-mono">{value}</span>
+                </div>
+              ))}
+            </CardContent>
+          </CollapsibleContent>
+        </Card>
+      </Collapsible>
+
+      {/* Element Rates */}
+      <Card className="w-80 bg-black/80 text-white border-gray-600">
+        <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Element Rates</CardTitle>
+          <Select value={rateSource} onValueChange={(value) => setRateSource(value as RateSource)}>
+            <SelectTrigger className="h-7 w-32 bg-transparent text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Forces</SelectItem>
+              <SelectItem value="hazards">Hazards Only</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-1 text-sm">
+            {ELEMENT_RATE_ROWS.map(({ key, label, unit, scale }) => (
+              <div key={key} className="flex justify-between">
+                <span className="text-gray-400">{label}</span>
+                <span className="font-mono">
+                  {Number.isFinite(elementRates[key]) ? `${(elementRates[key] * scale).toExponential(2)} ${unit}` : '—'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Controls */}
       <Card className="w-80 bg-black/80 text-white border-gray-600">
         <CardHeader className="pb-2">
@@ -110,19 +412,183 @@ export default function MissionUI() {
         </CardHeader>
         <CardContent className="space-y-2">
           <div className="text-sm space-y-1">
-            <div><kbd className="bg-gray-700 px-1 rounded">WASD</kbd> - Burn Direction</div>
-            <div><kbd className="bg-gray-700 px-1 rounded">Q/E</kbd> - Radial Burns</div>
+            <div><kbd className="bg-gray-700 px-1 rounded">W/S</kbd> - {BURN_REFERENCES[burnReference].keys[0]}</div>
+            <div><kbd className="bg-gray-700 px-1 rounded">A/D</kbd> - {BURN_REFERENCES[burnReference].keys[1]}</div>
+            <div><kbd className="bg-gray-700 px-1 rounded">Q/E</kbd> - {BURN_REFERENCES[burnReference].keys[2]}</div>
             <div><kbd className="bg-gray-700 px-1 rounded">SPACE</kbd> - Execute Burn</div>
+            <div><kbd className="bg-gray-700 px-1 rounded">J</kbd> - Jettison Stage</div>
             <div><kbd className="bg-gray-700 px-1 rounded">T</kbd> - Time Warp</div>
+            <div><kbd className="bg-gray-700 px-1 rounded">P</kbd> - Pause / Resume</div>
+          </div>
+          <div className="text-sm">
+            <span className="text-gray-400">Burn Frame</span>
+            <Select value={burnReference} onValueChange={(value) => setBurnReference(value as BurnReference)}>
+              <SelectTrigger className="h-8 mt-1 bg-transparent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(BURN_REFERENCES) as BurnReference[]).map((reference) => (
+                  <SelectItem key={reference} value={reference}>{BURN_REFERENCES[reference].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div>
+              <span className="text-gray-400">Moon Model</span>
+              <Select value={moonEphemeris} onValueChange={(value) => setMoonEphemeris(value as MoonEphemerisMode)}>
+                <SelectTrigger className="h-8 mt-1 bg-transparent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="meeus">Analytic</SelectItem>
+                  <SelectItem value="circular">Circular</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <span className="text-gray-400">Epoch (UTC)</span>
+              <Input
+                type="date"
+                className="h-8 mt-1 bg-transparent"
+                value={epochToDate(missionEpoch).toISOString().slice(0, 10)}
+                onChange={(e) => {
+                  if (e.target.value) setMissionEpoch(dateToEpoch(new Date(e.target.value)));
+                }}
+              />
+            </div>
+          </div>
+          <div className="text-sm">
+            <span className="text-gray-400">Hazard Seed (on reset)</span>
+            <Input
+              type="number"
+              step={1}
+              className="h-8 mt-1 bg-transparent"
+              value={hazardSeed}
+              onChange={(e) => setHazardSeed(Math.trunc(Number(e.target.value)))}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div>
+              <span className="text-gray-400">Gravity Model</span>
+              <Select value={zonalDegree.toString()} onValueChange={(value) => setZonalDegree(Number(value))}>
+                <SelectTrigger className="h-8 mt-1 bg-transparent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">Point Mass</SelectItem>
+                  <SelectItem value="2">J2</SelectItem>
+                  <SelectItem value="4">J2-J4</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <span className="text-gray-400">Atmosphere</span>
+              <Select value={atmosphere.model} onValueChange={(value) => setAtmosphere({ model: value as AtmosphereModel })}>
+                <SelectTrigger className="h-8 mt-1 bg-transparent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Off</SelectItem>
+                  <SelectItem value="exponential">Exponential</SelectItem>
+                  <SelectItem value="solarFlux">Solar Flux</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <label className="flex items-center justify-between">
+              <span className="text-gray-400">Sun Gravity</span>
+              <Switch checked={solarGravity} onCheckedChange={setSolarGravity} />
+            </label>
+            <label className="flex items-center justify-between">
+              <span className="text-gray-400">Solar Pressure</span>
+              <Switch checked={solarRadiationPressure} onCheckedChange={setSolarRadiationPressure} />
+            </label>
+          </div>
+          {atmosphere.model === 'solarFlux' && (
+            <div className="text-sm">
+              <span className="text-gray-400">F10.7 Solar Flux</span>
+              <Input
+                type="number"
+                min={60}
+                max={300}
+                className="h-8 mt-1 bg-transparent"
+                value={atmosphere.solarFlux ?? 150}
+                onChange={(e) => setAtmosphere({ solarFlux: Number(e.target.value) })}
+              />
+            </div>
+          )}
+          <div className="text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-400">Spacecraft (on reset)</span>
+              <Link href="/designer" className="text-blue-400 hover:underline">Design Editor</Link>
+            </div>
+            <Select value={selectedDesignKey ?? ""} onValueChange={setDesignKey}>
+              <SelectTrigger className="h-8 mt-1 bg-transparent">
+                <SelectValue placeholder="Current design" />
+              </SelectTrigger>
+              <SelectContent>
+                {choices.map(({ key, design }) => (
+                  <SelectItem key={key} value={key}>{design.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2 mt-2">
+            <Button 
+              onClick={togglePause} 
+              variant="outline" 
+              size="sm" 
+              className="flex-1"
+            >
+              {paused ? 'Resume' : 'Pause'}
+            </Button>
+            <Button 
+              onClick={() => resetMission(choices.find(({ key }) => key === selectedDesignKey)?.design)} 
+              variant="outline" 
+              size="sm" 
+              className="flex-1"
+            >
+              Reset Mission
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button 
+              onClick={() => downloadMission(exportMission())} 
+              variant="outline" 
+              size="sm" 
+              className="flex-1"
+            >
+              Export
+            </Button>
+            <Button 
+              onClick={() => missionFile.current?.click()} 
+              variant="outline" 
+              size="sm" 
+              className="flex-1"
+            >
+              Import
+            </Button>
+            <input
+              ref={missionFile}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (!file) return;
+                readMission(file)
+                  .then((mission) => mission.kind === 'save' ? importMission(mission.save) : loadScenario(mission.scenario))
+                  .then(
+                    () => setImportError(null),
+                    (error) => setImportError(`Could not load ${file.name}: ${(error as Error).message}`)
+                  );
+              }}
+            />
           </div>
-          <Button 
-            onClick={resetMission} 
-            variant="outline" 
-            size="sm" 
-            className="w-full mt-2"
-          >
-            Reset Mission
-          </Button>
+          {importError && <div className="text-red-400 text-xs">{importError}</div>}
         </CardContent>
       </Card>
 
@@ -134,7 +600,7 @@ export default function MissionUI() {
         <CardContent>
           <div className="text-2xl font-mono">{score.toFixed(0)}</div>
           <div className="text-sm text-gray-400">
-            Efficiency: {((1000 - (1000 - spacecraft.fuel) * 2) / 10).toFixed(0)}%
+            Efficiency: {(spacecraft.maxFuel > 0 ? spacecraft.fuel / spacecraft.maxFuel * 100 : 0).toFixed(0)}%
           </div>
         </CardContent>
       </Card>
@@ -147,9 +613,9 @@ export default function MissionUI() {
           </CardHeader>
           <CardContent>
             <div className="space-y-1 max-h-32 overflow-y-auto">
-              {missionEvents.slice(-5).reverse().map((event: any, index: number) => (
-                <div key={index} className="text-xs">
-                  <span className="text-gray-400">[{new Date(event.time).toLocaleTimeString()}]</span>
+              {missionEvents.slice(-5).reverse().map((event) => (
+                <div key={event.id} className="text-xs">
+                  <span className="text-gray-400">[{formatMissionElapsedTime(event.time)}]</span>
                   <br />
                   <span>{event.description}</span>
                 </div>
@@ -2,27 +2,86 @@ import { useMemo } from "react";
 import { Line } from "@react-three/drei";
 import { Vector3 } from "three";
 import { Spacecraft, CelestialBody } from "../lib/stores/useSpaceGame";
-import { calculateOrbitPoints } from "../lib/orbitalMechanics";
+import { calculateOrbitPoints } from "@shared/physics/orbitalMechanics";
+import { ManeuverPrediction } from "@shared/physics/maneuverNodes";
+import { RenderScale, toRenderLength, toRenderPosition } from "@shared/physics/units";
 
 interface OrbitVisualizerProps {
   spacecraft: Spacecraft;
-  earth: CelestialBody;
+  centralBody: CelestialBody; // Body the orbital elements are relative to
+  renderScale: RenderScale;
+  maneuvers?: ManeuverPrediction[]; // Predicted orbits after each maneuver node
 }
 
-export default function OrbitVisualizer({ spacecraft, earth }: OrbitVisualizerProps) {
+export default function OrbitVisualizer({ spacecraft, centralBody, renderScale, maneuvers = [] }: OrbitVisualizerProps) {
   const orbitPoints = useMemo(() => {
-    return calculateOrbitPoints(spacecraft.orbitalElements, earth, 64);
-  }, [spacecraft.orbitalElements, earth]);
+    return calculateOrbitPoints(spacecraft.orbitalElements, centralBody, 64);
+  }, [spacecraft.orbitalElements, centralBody]);
 
-  const points = orbitPoints.map((point: any) => new Vector3(point.x, point.y, point.z));
+  const points = orbitPoints.map((point) => {
+    const p = toRenderPosition(point, renderScale);
+    return new Vector3(p.x, p.y, p.z);
+  });
+  const center = toRenderPosition(centralBody.position, renderScale);
+
+  const predicted = useMemo(() => maneuvers.map(({ before, elements }) => ({
+    node: toRenderPosition(before.position, renderScale),
+    points: calculateOrbitPoints(elements, centralBody, 64).map((point) => {
+      const p = toRenderPosition(point, renderScale);
+      return new Vector3(p.x, p.y, p.z);
+    })
+  })), [maneuvers, centralBody, renderScale]);
+
+  // Line of nodes from descending to ascending node, so J2 nodal drift is visible
+  const lineOfNodes = useMemo(() => {
+    const { eccentricity: e, inclination, longitudeOfAscendingNode: raan, argumentOfPeriapsis: omega } = spacecraft.orbitalElements;
+    if (e >= 1 || inclination < 1e-6 || Math.PI - inclination < 1e-6) return null;
+    const p = spacecraft.orbitalElements.semiMajorAxis * (1 - e * e);
+    const ascending = toRenderLength(p / (1 + e * Math.cos(-omega)), renderScale);
+    const descending = toRenderLength(p / (1 + e * Math.cos(Math.PI - omega)), renderScale);
+    const direction = new Vector3(Math.cos(raan), Math.sin(raan), 0);
+    return [direction.clone().multiplyScalar(-descending), direction.clone().multiplyScalar(ascending)];
+  }, [spacecraft.orbitalElements, renderScale]);
 
   return (
-    <Line
-      points={points}
-      color="#00ff88"
-      lineWidth={2}
-      transparent
-      opacity={0.6}
-    />
+    <group position={[center.x, center.y, center.z]}>
+      <Line
+        points={points}
+        color="#00ff88"
+        lineWidth={2}
+        transparent
+        opacity={0.6}
+      />
+      {predicted.map(({ node, points: orbit }, i) => (
+        <group key={i}>
+          <Line
+            points={orbit}
+            color="#ff66ff"
+            lineWidth={1.5}
+            dashed
+            dashSize={0.8}
+            gapSize={0.4}
+            transparent
+            opacity={0.7}
+          />
+          <mesh position={[node.x, node.y, node.z]}>
+            <sphereGeometry args={[Math.max(0.2, toRenderLength(100, renderScale)), 12, 12]} />
+            <meshBasicMaterial color="#ff66ff" />
+          </mesh>
+        </group>
+      ))}
+      {lineOfNodes && (
+        <Line
+          points={lineOfNodes}
+          color="#ffaa00"
+          lineWidth={1}
+          dashed
+          dashSize={0.5}
+          gapSize={0.3}
+          transparent
+          opacity={0.5}
+        />
+      )}
+    </group>
   );
 }
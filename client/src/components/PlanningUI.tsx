@@ -0,0 +1,14 @@
+import ManeuverNodePanel from "./ManeuverNodePanel";
+import TargetingPanel from "./TargetingPanel";
+import TransferPlannerPanel from "./TransferPlannerPanel";
+
+// Right-hand column of mission planning tools
+export default function PlanningUI() {
+  return (
+    <div className="absolute top-4 right-4 space-y-4 z-10 max-h-[calc(100vh-2rem)] overflow-y-auto">
+      <ManeuverNodePanel />
+      <TransferPlannerPanel />
+      <TargetingPanel />
+    </div>
+  );
+}
@@ -1,61 +1,122 @@
 import { useFrame } from "@react-three/fiber";
-import { useRef, useEffect } from "react";
-import { Group, Vector3 } from "three";
+import { useRef, useEffect, useMemo } from "react";
+import { Group } from "three";
 import { OrbitControls, Sphere, Text } from "@react-three/drei";
-import { useSpaceGame } from "../lib/stores/useSpaceGame";
-import { updateOrbitalMotion } from "../lib/orbitalMechanics";
-import { updateHazards } from "../lib/hazards";
+import { useSpaceGame, sunPositionAt } from "../lib/stores/useSpaceGame";
+import { advanceClock, DEFAULT_CLOCK_SETTINGS, interpolatePosition } from "../lib/simulationClock";
+import { useGame } from "../lib/stores/useGame";
+import { Position3D } from "@shared/physics/orbitalMechanics";
+import { predictManeuvers } from "@shared/physics/maneuverNodes";
+import { getInertialPosition } from "@shared/physics/sphereOfInfluence";
+import { toRenderLength, toRenderPosition } from "@shared/physics/units";
+import { normalize } from "@shared/physics/vectorMath";
 import SpacecraftControls from "./SpacecraftControls";
 import OrbitVisualizer from "./OrbitVisualizer";
+import TransferArc from "./TransferArc";
+
+interface RenderedPositions {
+  spacecraft: Position3D; // Earth-centred, km
+  moon: Position3D;
+}
+
+// Inertial positions drawn in the scene for the current physics state
+function renderedPositions(): RenderedPositions {
+  const { spacecraft, earth, moon } = useSpaceGame.getState();
+  return {
+    spacecraft: getInertialPosition(spacecraft.position, spacecraft.primary, earth, moon),
+    moon: moon.position
+  };
+}
 
 export default function SpaceGame() {
   const groupRef = useRef<Group>(null);
+  const spacecraftRef = useRef<Group>(null);
+  const moonRef = useRef<Group>(null);
+  const accumulator = useRef(0);
+  // Last two physics states, interpolated between for smooth rendering
+  const rendered = useRef<{ previous: RenderedPositions; current: RenderedPositions } | null>(null);
   const {
     spacecraft,
     earth,
     moon,
     hazards,
     gameTime,
-    timeWarp,
-    updateSpacecraft,
-    updateGameTime,
-    updateHazards: updateGameHazards
+    missionEpoch,
+    renderScale,
+    transfer,
+    scheduledBurns
   } = useSpaceGame();
 
+  // The mission clock runs from the first frame
+  useEffect(() => {
+    useGame.getState().start();
+  }, []);
+
   useFrame((state, delta) => {
-    const SIMULATION_SPEED = 20; // amplify time to make motion visible
-    const adjustedDelta = delta * timeWarp * SIMULATION_SPEED;
-    const newTime = gameTime + adjustedDelta;
+    const { timeWarp, paused } = useSpaceGame.getState();
+    // Nothing moves once the mission is over
+    const ended = useGame.getState().phase === 'ended';
     
-    // Update spacecraft orbital motion
-    const newSpacecraft = updateOrbitalMotion(spacecraft, earth, adjustedDelta, moon);
-    updateSpacecraft(newSpacecraft);
+    if (!rendered.current) {
+      const positions = renderedPositions();
+      rendered.current = { previous: positions, current: positions };
+    }
     
-    // Update hazards
-    const newHazards = updateHazards(hazards, adjustedDelta);
-    updateGameHazards(newHazards);
+    const tick = advanceClock(accumulator.current, delta, timeWarp, paused || ended, DEFAULT_CLOCK_SETTINGS);
+    accumulator.current = tick.accumulator;
+    for (let i = 0; i < tick.steps; i++) {
+      useSpaceGame.getState().step(DEFAULT_CLOCK_SETTINGS.fixedStep);
+      rendered.current = { previous: rendered.current.current, current: renderedPositions() };
+      if (useGame.getState().phase === 'ended' || useSpaceGame.getState().paused) break;
+    }
     
-    // Update game time
-    updateGameTime(newTime);
+    // Draw between the last two physics states
+    const { renderScale } = useSpaceGame.getState();
+    const { previous, current } = rendered.current;
+    const place = (group: Group | null, from: Position3D, to: Position3D) => {
+      if (!group) return;
+      const p = toRenderPosition(interpolatePosition(from, to, tick.alpha), renderScale);
+      group.position.set(p.x, p.y, p.z);
+    };
+    place(spacecraftRef.current, previous.spacecraft, current.spacecraft);
+    place(moonRef.current, previous.moon, current.moon);
   });
 
+  // Physics state is in km; everything below is drawn in scene units
+  const earthPosition = toRenderPosition(earth.position, renderScale);
+  const primaryBody = spacecraft.primary === 'moon' ? moon : earth;
+  const maneuvers = useMemo(
+    () => predictManeuvers(spacecraft, gameTime, scheduledBurns, primaryBody),
+    [spacecraft, gameTime, scheduledBurns, primaryBody]
+  );
+  const earthRadius = toRenderLength(earth.radius, renderScale);
+  const moonRadius = toRenderLength(moon.radius, renderScale);
+  // The Sun is far outside the scene; it only sets the light direction
+  const sunDirection = normalize(sunPositionAt(gameTime, missionEpoch));
+
   return (
     <group ref={groupRef}>
       <OrbitControls 
         enablePan={true}
         enableZoom={true}
         enableRotate={true}
-        maxDistance={200}
+        maxDistance={1000}
         minDistance={5}
       />
       
+      {/* Sunlight */}
+      <directionalLight
+        position={[sunDirection.x * 100, sunDirection.y * 100, sunDirection.z * 100]}
+        intensity={0.8}
+      />
+      
       {/* Earth */}
-      <group position={[earth.position.x, earth.position.y, earth.position.z]}>
-        <Sphere args={[earth.radius]} receiveShadow>
+      <group position={[earthPosition.x, earthPosition.y, earthPosition.z]}>
+        <Sphere args={[earthRadius]} receiveShadow>
           <meshLambertMaterial color="#4a90e2" />
         </Sphere>
         <Text
-          position={[0, earth.radius + 2, 0]}
+          position={[0, earthRadius + 2, 0]}
           fontSize={1}
           color="white"
           anchorX="center"
@@ -65,13 +126,13 @@ export default function SpaceGame() {
         </Text>
       </group>
 
-      {/* Moon */}
-      <group position={[moon.position.x, moon.position.y, moon.position.z]}>
-        <Sphere args={[moon.radius]} receiveShadow>
+      {/* Moon (placed every frame from the interpolated physics state) */}
+      <group ref={moonRef}>
+        <Sphere args={[moonRadius]} receiveShadow>
           <meshLambertMaterial color="#c0c0c0" />
         </Sphere>
         <Text
-          position={[0, moon.radius + 1, 0]}
+          position={[0, moonRadius + 1, 0]}
           fontSize={0.8}
           color="white"
           anchorX="center"
@@ -81,8 +142,8 @@ export default function SpaceGame() {
         </Text>
       </group>
 
-      {/* Spacecraft (satellite) */}
-      <group position={[spacecraft.position.x, spacecraft.position.y, spacecraft.position.z]}>
+      {/* Spacecraft (satellite, placed like the Moon) */}
+      <group ref={spacecraftRef}>
         <mesh castShadow>
           <boxGeometry args={[0.5, 0.5, 1]} />
           <meshLambertMaterial color="#ffffff" emissive="#ffffff" emissiveIntensity={0.2} />
@@ -97,25 +158,40 @@ export default function SpaceGame() {
       </group>
 
       {/* Hazards */}
-      {hazards.map((hazard: any, index: number) => (
-        <group key={index} position={[hazard.position.x, hazard.position.y, hazard.position.z]}>
-          {hazard.type === 'radiation' && (
-            <mesh>
-              <sphereGeometry args={[hazard.radius, 16, 16]} />
-              <meshBasicMaterial color="#ff0000" transparent opacity={0.3} />
-            </mesh>
-          )}
-          {hazard.type === 'debris' && (
-            <mesh>
-              <boxGeometry args={[0.3, 0.3, 0.3]} />
-              <meshLambertMaterial color="#666666" />
-            </mesh>
-          )}
-        </group>
-      ))}
+      {hazards.map((hazard) => {
+        const hazardPosition = toRenderPosition(hazard.position, renderScale);
+        return (
+          <group key={hazard.id} position={[hazardPosition.x, hazardPosition.y, hazardPosition.z]}>
+            {hazard.type === 'radiation' && (
+              <mesh>
+                <sphereGeometry args={[toRenderLength(hazard.radius, renderScale), 16, 16]} />
+                <meshBasicMaterial color="#ff0000" transparent opacity={0.3} />
+              </mesh>
+            )}
+            {hazard.type === 'debris' && (
+              <mesh>
+                <boxGeometry args={[0.3, 0.3, 0.3]} />
+                <meshLambertMaterial color="#666666" />
+              </mesh>
+            )}
+          </group>
+        );
+      })}
 
       {/* Orbit visualization */}
-      <OrbitVisualizer spacecraft={spacecraft} earth={earth} />
+      <OrbitVisualizer
+        spacecraft={spacecraft}
+        centralBody={primaryBody}
+        renderScale={renderScale}
+        maneuvers={maneuvers}
+      />
+      {transfer && (
+        <TransferArc
+          transfer={transfer}
+          centralBody={transfer.primary === 'moon' ? moon : earth}
+          renderScale={renderScale}
+        />
+      )}
       
       {/* Spacecraft controls */}
       <SpacecraftControls />
@@ -1,7 +1,10 @@
 import { useKeyboardControls } from "@react-three/drei";
 import { useEffect } from "react";
 import { useSpaceGame } from "../lib/stores/useSpaceGame";
-import { calculateDeltaV, applyBurn } from "../lib/spacecraft";
+import { metersPerSecond } from "@shared/physics/units";
+
+// Delta-v the engine delivers per press of the burn key
+const BURN_DELTA_V = metersPerSecond(10);
 
 enum Controls {
   prograde = 'prograde',
@@ -11,18 +14,16 @@ enum Controls {
   radial = 'radial',
   antiradial = 'antiradial',
   burn = 'burn',
+  jettison = 'jettison',
   warp = 'warp',
+  pause = 'pause',
 }
 
 export default function SpacecraftControls() {
   const [subscribe, getState] = useKeyboardControls<Controls>();
-  const { 
-    spacecraft, 
-    updateSpacecraft, 
-    toggleTimeWarp, 
-    addMissionEvent 
-  } = useSpaceGame();
 
+  // Handlers read the game state when a key is pressed, so the listeners
+  // are set up once rather than on every physics step
   useEffect(() => {
     console.log("SpacecraftControls mounted, setting up keyboard listeners");
     
@@ -35,65 +36,75 @@ export default function SpacecraftControls() {
       }
     }, 1000);
 
-    setTimeout(() => clearInterval(testControls), 10000); // Stop after 10 seconds
+    const stopTestControls = setTimeout(() => clearInterval(testControls), 10000); // Stop after 10 seconds
     const unsubscribeBurn = subscribe(
       state => state.burn,
       (pressed) => {
         console.log("Burn key pressed:", pressed);
-        if (pressed && spacecraft.fuel > 0) {
+        const { spacecraft, activeBurn, startBurnAlong, stopBurn } = useSpaceGame.getState();
+        if (pressed && activeBurn) {
+          // Pressing again while the engine runs cuts it off early
+          stopBurn();
+        } else if (pressed && spacecraft.fuel > 0) {
           console.log("Burn initiated - fuel available:", spacecraft.fuel);
           const controls = getState();
           console.log("Current controls:", controls);
-          let burnDirection = { x: 0, y: 0, z: 0 };
-          
-          // Determine burn direction based on controls
-          if (controls.prograde) burnDirection.z = 1;
-          if (controls.retrograde) burnDirection.z = -1;
-          if (controls.normal) burnDirection.y = 1;
-          if (controls.antinormal) burnDirection.y = -1;
-          if (controls.radial) burnDirection.x = 1;
-          if (controls.antiradial) burnDirection.x = -1;
+          // Held keys combine, in the selected burn reference
+          const amounts = {
+            prograde: Number(controls.prograde) - Number(controls.retrograde),
+            normal: Number(controls.normal) - Number(controls.antinormal),
+            radial: Number(controls.radial) - Number(controls.antiradial)
+          };
           
           // Default to prograde if no direction specified
-          if (burnDirection.x === 0 && burnDirection.y === 0 && burnDirection.z === 0) {
-            burnDirection.z = 1;
+          if (amounts.prograde === 0 && amounts.normal === 0 && amounts.radial === 0) {
+            amounts.prograde = 1;
           }
           
-          console.log("Burn direction:", burnDirection);
-          
-          // Apply burn
-          const burnResult = applyBurn(spacecraft, burnDirection, 1.0); // 1 m/s delta-v
-          console.log("Burn result:", burnResult);
-          updateSpacecraft(burnResult.spacecraft);
+          console.log("Burn direction:", amounts);
           
-          addMissionEvent({
-            time: Date.now(),
-            type: 'burn',
-            description: `Burn: ${burnResult.deltaV.toFixed(2)} m/s, Fuel: ${burnResult.spacecraft.fuel.toFixed(1)} kg`,
-            deltaV: burnResult.deltaV
-          });
+          // Light the engine; it runs until the Δv is delivered
+          startBurnAlong(amounts, BURN_DELTA_V);
         } else if (pressed) {
           console.log("Burn pressed but no fuel available. Fuel:", spacecraft.fuel);
         }
       }
     );
 
+    const unsubscribeJettison = subscribe(
+      state => state.jettison,
+      (pressed) => {
+        if (pressed) useSpaceGame.getState().jettisonStage();
+      }
+    );
+
     const unsubscribeWarp = subscribe(
       state => state.warp,
       (pressed) => {
         console.log("Time warp key pressed:", pressed);
         if (pressed) {
           console.log("Time warp toggled");
-          toggleTimeWarp();
+          useSpaceGame.getState().toggleTimeWarp();
         }
       }
     );
 
+    const unsubscribePause = subscribe(
+      state => state.pause,
+      (pressed) => {
+        if (pressed) useSpaceGame.getState().togglePause();
+      }
+    );
+
     return () => {
+      clearInterval(testControls);
+      clearTimeout(stopTestControls);
       unsubscribeBurn();
+      unsubscribeJettison();
       unsubscribeWarp();
+      unsubscribePause();
     };
-  }, [subscribe, getState, spacecraft, updateSpacecraft, toggleTimeWarp, addMissionEvent]);
+  }, [subscribe, getState]);
 
   return null;
 }
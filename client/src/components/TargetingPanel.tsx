@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useSpaceGame, TransferTarget } from "../lib/stores/useSpaceGame";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { inertialToRtn } from "@shared/physics/frames";
+import { formatDuration } from "@shared/physics/time";
+import { magnitude } from "@shared/physics/vectorMath";
+
+const SECONDS_PER_HOUR = 3600;
+
+type TargetKind = TransferTarget['kind'];
+
+// Lambert targeting: Δv to reach the Moon or a point at a chosen time
+export default function TargetingPanel() {
+  const { spacecraft, gameTime, transfer, planTransfer, executeTransfer, clearTransfer } = useSpaceGame();
+  const [targetKind, setTargetKind] = useState<TargetKind>('moon');
+  const [point, setPoint] = useState({ x: 42164, y: 0, z: 0 });
+  const [hours, setHours] = useState(72);
+  const [maxRevolutions, setMaxRevolutions] = useState(0);
+  const [failed, setFailed] = useState(false);
+
+  const compute = () => {
+    const target: TransferTarget = targetKind === 'moon' ? { kind: 'moon' } : { kind: 'point', position: point };
+    setFailed(!planTransfer(target, hours * SECONDS_PER_HOUR, maxRevolutions));
+  };
+
+  // Burn split into radial / along-track / normal components (m/s)
+  const burn = transfer && inertialToRtn(transfer.deltaV, spacecraft);
+
+  return (
+    <Card className="w-80 bg-black/80 text-white border-gray-600">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Targeting</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="text-gray-400">Target</span>
+            <Select value={targetKind} onValueChange={(value) => setTargetKind(value as TargetKind)}>
+              <SelectTrigger className="h-8 mt-1 bg-transparent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="moon">Moon</SelectItem>
+                <SelectItem value="point">Point</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <span className="text-gray-400">Flight Time (h)</span>
+            <Input
+              type="number"
+              min={0.1}
+              step={0.5}
+              className="h-8 mt-1 bg-transparent"
+              value={hours}
+              onChange={(e) => setHours(Number(e.target.value))}
+            />
+          </div>
+        </div>
+        {targetKind === 'point' && (
+          <div>
+            <span className="text-gray-400">Position (km, Earth-centred)</span>
+            <div className="grid grid-cols-3 gap-1 mt-1">
+              {(['x', 'y', 'z'] as const).map((axis) => (
+                <Input
+                  key={axis}
+                  type="number"
+                  className="h-8 bg-transparent"
+                  aria-label={axis}
+                  value={point[axis]}
+                  onChange={(e) => setPoint({ ...point, [axis]: Number(e.target.value) })}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+        <div>
+          <span className="text-gray-400">Max Revolutions</span>
+          <Input
+            type="number"
+            min={0}
+            max={5}
+            className="h-8 mt-1 bg-transparent"
+            value={maxRevolutions}
+            onChange={(e) => setMaxRevolutions(Math.max(0, Math.round(Number(e.target.value))))}
+          />
+        </div>
+        <Button onClick={compute} variant="outline" size="sm" className="w-full">
+          Compute Transfer
+        </Button>
+
+        {failed && !transfer && (
+          <div className="text-red-400">
+            No transfer found{spacecraft.primary === 'moon' && targetKind === 'moon' ? ' (already inside the Moon\'s SOI)' : ''}
+          </div>
+        )}
+
+        {transfer && burn && (
+          <div className="space-y-1">
+            <div>Δv: {(magnitude(transfer.deltaV) * 1000).toFixed(1)} m/s</div>
+            <div className="text-xs text-gray-400">
+              Radial {(burn.x * 1000).toFixed(1)} / Prograde {(burn.y * 1000).toFixed(1)} / Normal {(burn.z * 1000).toFixed(1)} m/s
+            </div>
+            <div>Arrival speed: {(magnitude(transfer.arrivalDeltaV) * 1000).toFixed(1)} m/s relative</div>
+            <div>
+              Revolutions: {transfer.solution.revolutions}
+              {transfer.solution.branch !== 'single' && ` (${transfer.solution.branch} branch)`}
+            </div>
+            <div>Arrives in: {formatDuration(transfer.arrivalTime - gameTime)}</div>
+            {transfer.lowestAltitude < 0 && (
+              <div className="text-red-400">Arc passes through the {transfer.primary === 'moon' ? 'Moon' : 'Earth'}</div>
+            )}
+            <div className="flex gap-2 mt-2">
+              <Button onClick={executeTransfer} size="sm" className="flex-1">
+                Execute Burn
+              </Button>
+              <Button onClick={clearTransfer} variant="outline" size="sm" className="flex-1">
+                Clear
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
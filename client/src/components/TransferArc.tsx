@@ -0,0 +1,39 @@
+import { useMemo } from "react";
+import { Line } from "@react-three/drei";
+import { Vector3 } from "three";
+import { CelestialBody, TransferPlan } from "../lib/stores/useSpaceGame";
+import { RenderScale, toRenderLength, toRenderPosition } from "@shared/physics/units";
+
+interface TransferArcProps {
+  transfer: TransferPlan;
+  centralBody: CelestialBody; // Body the arc was solved about
+  renderScale: RenderScale;
+}
+
+// Planned Lambert arc from the departure point to the target
+export default function TransferArc({ transfer, centralBody, renderScale }: TransferArcProps) {
+  const points = useMemo(() => transfer.arc.map((point) => {
+    const p = toRenderPosition(point, renderScale);
+    return new Vector3(p.x, p.y, p.z);
+  }), [transfer, renderScale]);
+  const center = toRenderPosition(centralBody.position, renderScale);
+  const target = toRenderPosition(transfer.targetPosition, renderScale);
+
+  return (
+    <group position={[center.x, center.y, center.z]}>
+      <Line
+        points={points}
+        color="#00ccff"
+        lineWidth={2}
+        dashed
+        dashSize={1}
+        gapSize={0.5}
+      />
+      {/* Where the target will be on arrival */}
+      <mesh position={[target.x, target.y, target.z]}>
+        <sphereGeometry args={[Math.max(0.3, toRenderLength(200, renderScale)), 12, 12]} />
+        <meshBasicMaterial color="#00ccff" transparent opacity={0.6} />
+      </mesh>
+    </group>
+  );
+}
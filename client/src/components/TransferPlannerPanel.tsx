@@ -0,0 +1,127 @@
+import { useMemo, useState } from "react";
+import { useSpaceGame } from "../lib/stores/useSpaceGame";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { TransferOption, compareTransfers } from "@shared/physics/transferPlanner";
+import { formatDuration } from "@shared/physics/time";
+
+const DEG = Math.PI / 180;
+
+// Orbit-to-orbit transfers: each strategy's Δv, time and fuel side by side,
+// and the chosen one queued as maneuver nodes
+export default function TransferPlannerPanel() {
+  const { spacecraft, earth, moon, scheduleBurns } = useSpaceGame();
+  const [altitude, setAltitude] = useState(35786);
+  const [inclination, setInclination] = useState(0);
+  const [eccentricity, setEccentricity] = useState(0);
+  const [intermediateAltitude, setIntermediateAltitude] = useState(100000);
+  const [compared, setCompared] = useState(false);
+
+  const primaryBody = spacecraft.primary === 'moon' ? moon : earth;
+
+  // Recomputed with the orbit so the node timing stays current
+  const options = useMemo(() => {
+    if (!compared || spacecraft.orbitalElements.eccentricity >= 1) return [];
+    return compareTransfers(
+      spacecraft.orbitalElements,
+      primaryBody,
+      { altitude, inclination: inclination * DEG, eccentricity },
+      spacecraft.mass,
+      spacecraft.specificImpulse,
+      { intermediateRadius: primaryBody.radius + intermediateAltitude }
+    );
+  }, [compared, spacecraft.orbitalElements, spacecraft.mass, spacecraft.specificImpulse, primaryBody, altitude, inclination, eccentricity, intermediateAltitude]);
+
+  const cheapest = options.reduce<TransferOption | null>(
+    (best, option) => (!best || option.totalDeltaV < best.totalDeltaV ? option : best),
+    null
+  );
+
+  const schedule = (option: TransferOption) => {
+    const now = useSpaceGame.getState().gameTime;
+    scheduleBurns(option.burns.map(({ offset, deltaV, label }) => ({ time: now + offset, deltaV, frame: 'rtn' as const, label })));
+  };
+
+  return (
+    <Card className="w-80 bg-black/80 text-white border-gray-600">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Transfer Planner</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="text-gray-400">Periapsis Alt (km)</span>
+            <Input
+              type="number"
+              min={0}
+              className="h-8 mt-1 bg-transparent"
+              value={altitude}
+              onChange={(e) => setAltitude(Number(e.target.value))}
+            />
+          </div>
+          <div>
+            <span className="text-gray-400">Inclination (°)</span>
+            <Input
+              type="number"
+              min={0}
+              max={180}
+              className="h-8 mt-1 bg-transparent"
+              value={inclination}
+              onChange={(e) => setInclination(Number(e.target.value))}
+            />
+          </div>
+          <div>
+            <span className="text-gray-400">Eccentricity</span>
+            <Input
+              type="number"
+              min={0}
+              max={0.9}
+              step={0.01}
+              className="h-8 mt-1 bg-transparent"
+              value={eccentricity}
+              onChange={(e) => setEccentricity(Math.min(0.9, Math.max(0, Number(e.target.value))))}
+            />
+          </div>
+          <div>
+            <span className="text-gray-400">Bi-elliptic Alt (km)</span>
+            <Input
+              type="number"
+              min={0}
+              className="h-8 mt-1 bg-transparent"
+              value={intermediateAltitude}
+              onChange={(e) => setIntermediateAltitude(Number(e.target.value))}
+            />
+          </div>
+        </div>
+        <Button onClick={() => setCompared(true)} variant="outline" size="sm" className="w-full">
+          Compare Transfers
+        </Button>
+
+        {compared && options.length === 0 && (
+          <div className="text-red-400">Transfers need a closed orbit to start from</div>
+        )}
+
+        {options.map((option) => (
+          <div
+            key={option.strategy}
+            className={`p-2 rounded border ${option === cheapest ? 'border-green-500' : 'border-gray-700'}`}
+          >
+            <div className="font-semibold">{option.label}</div>
+            <div className="grid grid-cols-3 gap-1 text-xs mt-1">
+              <span>{(option.totalDeltaV * 1000).toFixed(1)} m/s</span>
+              <span>{formatDuration(option.transferTime)}</span>
+              <span className={option.fuel > spacecraft.fuel ? 'text-red-400' : ''}>{option.fuel.toFixed(1)} kg</span>
+            </div>
+            {option.fuel > spacecraft.fuel && (
+              <div className="text-xs text-red-400">Not enough fuel ({spacecraft.fuel.toFixed(1)} kg aboard)</div>
+            )}
+            <Button onClick={() => schedule(option)} size="sm" className="w-full mt-2 h-7">
+              Schedule {option.burns.length} Burn{option.burns.length === 1 ? '' : 's'}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
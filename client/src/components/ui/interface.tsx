@@ -2,8 +2,8 @@ import { useEffect } from "react";
 import { useGame } from "@/lib/stores/useGame";
 import { useAudio } from "@/lib/stores/useAudio";
 import { Button } from "./button";
-import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "./card";
-import { VolumeX, Volume2, RotateCw, Trophy } from "lucide-react";
+import { Card, CardContent } from "./card";
+import { VolumeX, Volume2, RotateCw } from "lucide-react";
 
 export function Interface() {
   const restart = useGame((state) => state.restart);
@@ -61,32 +61,6 @@ export function Interface() {
         </Button>
       </div>
       
-      {/* Game completion overlay */}
-      {phase === "ended" && (
-        <div className="fixed inset-0 flex items-center justify-center z-20 bg-black/30">
-          <Card className="w-full max-w-md mx-4 shadow-lg">
-            <CardHeader>
-              <CardTitle className="flex items-center justify-center gap-2">
-                <Trophy className="text-yellow-500" />
-                Level Complete!
-              </CardTitle>
-            </CardHeader>
-            
-            <CardContent>
-              <p className="text-center text-muted-foreground">
-                Congratulations! You successfully navigated the course.
-              </p>
-            </CardContent>
-            
-            <CardFooter className="flex justify-center">
-              <Button onClick={restart} className="w-full">
-                Play Again
-              </Button>
-            </CardFooter>
-          </Card>
-        </div>
-      )}
-      
       {/* Instructions panel */}
       <div className="fixed bottom-4 left-4 z-10">
         <Card className="w-auto max-w-xs bg-background/80 backdrop-blur-sm">
@@ -0,0 +1,63 @@
+// Fixed-timestep simulation clock
+//
+// Real frame time is scaled by the time warp into an accumulator that is
+// drained in fixed physics steps, so the trajectory only depends on the
+// inputs and never on the frame rate. What is left in the accumulator gives
+// the interpolation factor between the last two physics states for rendering.
+
+import { Position3D } from "@shared/physics/orbitalMechanics";
+
+export interface ClockSettings {
+  fixedStep: number;     // Simulated seconds per physics step
+  timeScale: number;     // Simulated seconds per real second at 1x warp
+  maxFrameTime: number;  // Longest real frame honoured (s); a stalled tab is clamped to this
+  maxSubsteps: number;   // Physics steps per frame before the clock drops time
+}
+
+export const DEFAULT_CLOCK_SETTINGS: ClockSettings = {
+  fixedStep: 1,
+  timeScale: 20, // amplify time to make motion visible
+  maxFrameTime: 0.25,
+  maxSubsteps: 240
+};
+
+export interface ClockTick {
+  steps: number;        // Physics steps to run this frame
+  accumulator: number;  // Simulated time carried over to the next frame (s)
+  alpha: number;        // Interpolation factor between the previous and current state, 0-1
+}
+
+export function advanceClock(
+  accumulator: number,
+  realDelta: number,
+  timeWarp: number,
+  paused: boolean,
+  settings: ClockSettings = DEFAULT_CLOCK_SETTINGS
+): ClockTick {
+  const { fixedStep, timeScale, maxFrameTime, maxSubsteps } = settings;
+  if (paused) {
+    return { steps: 0, accumulator, alpha: accumulator / fixedStep };
+  }
+
+  let pending = accumulator + Math.min(realDelta, maxFrameTime) * timeWarp * timeScale;
+  let steps = Math.floor(pending / fixedStep);
+  pending -= steps * fixedStep;
+
+  // Too far behind: run what the frame budget allows and drop the rest
+  // rather than falling further behind every frame
+  if (steps > maxSubsteps) {
+    steps = maxSubsteps;
+    pending = 0;
+  }
+
+  return { steps, accumulator: pending, alpha: pending / fixedStep };
+}
+
+// Linear interpolation between two rendered positions
+export function interpolatePosition(previous: Position3D, current: Position3D, alpha: number): Position3D {
+  return {
+    x: previous.x + (current.x - previous.x) * alpha,
+    y: previous.y + (current.y - previous.y) * alpha,
+    z: previous.z + (current.z - previous.z) * alpha
+  };
+}
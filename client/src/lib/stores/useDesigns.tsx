@@ -0,0 +1,52 @@
+import { create } from "zustand";
+import { SPACECRAFT_DESIGNS, SpacecraftDesign } from "@shared/physics/spacecraftDesign";
+import { spacecraftDesignSchema } from "@shared/scenario";
+import { getLocalStorage, setLocalStorage } from "../utils";
+
+const STORAGE_KEY = "spacecraftDesigns";
+
+// Saved designs that no longer parse are dropped rather than failing the app
+function loadDesigns(): SpacecraftDesign[] {
+  try {
+    const parsed = spacecraftDesignSchema.array().safeParse(getLocalStorage(STORAGE_KEY) ?? []);
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+interface DesignsState {
+  designs: SpacecraftDesign[];      // Saved in this browser, by unique name
+
+  // Actions
+  saveDesign: (design: SpacecraftDesign) => void;
+  deleteDesign: (name: string) => void;
+}
+
+// Spacecraft designs built in the editor, kept in localStorage
+export const useDesigns = create<DesignsState>()((set, get) => {
+  const store = (designs: SpacecraftDesign[]) => {
+    setLocalStorage(STORAGE_KEY, designs);
+    set({ designs });
+  };
+
+  return {
+    designs: loadDesigns(),
+
+    // A design saved under an existing name replaces it
+    saveDesign: (design) => {
+      const designs = get().designs.filter((saved) => saved.name !== design.name);
+      store([...designs, design]);
+    },
+
+    deleteDesign: (name) => store(get().designs.filter((saved) => saved.name !== name))
+  };
+});
+
+// Built-in designs then saved ones, keyed for select inputs
+export function designChoices(designs: SpacecraftDesign[]): { key: string; design: SpacecraftDesign }[] {
+  return [
+    ...Object.entries(SPACECRAFT_DESIGNS).map(([key, design]) => ({ key: `builtin:${key}`, design })),
+    ...designs.map((design) => ({ key: `saved:${design.name}`, design }))
+  ];
+}
@@ -1,176 +1,413 @@
 import { create } from "zustand";
+import { z } from "zod";
 import { subscribeWithSelector } from "zustand/middleware";
-import { Position3D, Velocity3D, OrbitalElements, EARTH_RADIUS, MU_EARTH } from "../orbitalMechanics";
-import { Hazard, generateRandomHazards } from "../hazards";
-
-export interface CelestialBody {
-  position: Position3D;
-  radius: number;
-  mass: number;
-  mu: number; // Standard gravitational parameter
-}
+import { MotionOptions, PropagationMethod } from "@shared/physics/orbitalMechanics";
+import { Hazard } from "@shared/physics/hazards";
+import { MoonEphemerisMode } from "@shared/physics/ephemeris";
+import { epochAt } from "@shared/physics/time";
+import { AtmosphereOptions } from "@shared/physics/atmosphere";
+import { FiniteBurn } from "@shared/physics/finiteBurn";
+import { SpacecraftDesign, StageDefinition } from "@shared/physics/spacecraftDesign";
+import { BurnAmounts, BurnReference, referenceBasis, referenceComponents, toInertial } from "@shared/physics/frames";
+import { DEFAULT_RENDER_SCALE, MetersPerSecond, RenderScale, kmPerSecond, seconds, toMetersPerSecond } from "@shared/physics/units";
+import { magnitude } from "@shared/physics/vectorMath";
+import { PropagationError } from "@shared/physics/propagator";
+import { Scenario, createScenarioEngine, scenarioTimeline, spacecraftDesignSchema } from "@shared/scenario";
+import {
+  CelestialBody,
+  MissionEndReason,
+  MissionEvent,
+  ScheduledBurn,
+  SimulationEngine,
+  SimulationSettings,
+  Spacecraft,
+  TransferPlan,
+  TransferTarget,
+  createSpacecraft,
+  initialOrbitalElements,
+  moonStateAt,
+  motionOptions
+} from "@shared/simulationEngine";
+import { useGame } from "./useGame";
 
-export interface Spacecraft {
-  position: Position3D;
-  velocity: Velocity3D;
-  mass: number;
-  fuel: number;
-  maxFuel: number;
-  maxMass: number;
-  orbitalElements: OrbitalElements;
-  isBurning: boolean;
-}
+export type { CelestialBody, MissionEndReason, MissionEvent, ScheduledBurn, Spacecraft, TransferPlan, TransferTarget } from "@shared/simulationEngine";
+export { moonStateAt, sunPositionAt } from "@shared/simulationEngine";
 
-export interface MissionEvent {
-  time: number;
-  type: 'burn' | 'hazard' | 'milestone';
-  description: string;
-  deltaV?: number;
+// Everything needed to compare, replay or export a mission state
+export interface MissionSave {
+  version: 1;
+  missionEpoch: number;        // Julian Date (TT) at mission elapsed time 0
+  epoch: number;               // Julian Date (TT) of the saved state
+  missionElapsedTime: number;  // s
+  moonEphemeris: MoonEphemerisMode;
+  hazardSeed: number;
+  randomState: number;         // Hazard generator state, so hazards replay
+  renderScale: RenderScale;
+  spacecraft: Spacecraft;
+  hazards: Hazard[];
+  missionEvents: MissionEvent[];
+  score: number;
 }
 
-interface SpaceGameState {
+const vectorSchema = z.object({ x: z.number(), y: z.number(), z: z.number() });
+
+// Debris never expires; JSON writes its Infinity lifetime as null
+const lifetimeSchema = z.number().nullable().transform((lifetime) => lifetime ?? Infinity);
+
+const hazardFields = {
+  id: z.string(),
+  position: vectorSchema,
+  velocity: vectorSchema.optional(),
+  radius: z.number().min(0),
+  intensity: z.number(),
+  duration: lifetimeSchema,
+  timeRemaining: lifetimeSchema
+};
+
+// A save read from a file is checked in full before any of it reaches the engine
+export const missionSaveSchema: z.ZodType<MissionSave, z.ZodTypeDef, unknown> = z.object({
+  version: z.literal(1),
+  missionEpoch: z.number(),
+  epoch: z.number(),
+  missionElapsedTime: z.number().min(0),
+  moonEphemeris: z.enum(['meeus', 'circular']),
+  hazardSeed: z.number().int(),
+  randomState: z.number().int(),
+  renderScale: z.object({ kmPerUnit: z.number().positive() }),
+  spacecraft: z.object({
+    primary: z.enum(['earth', 'moon']),
+    position: vectorSchema,
+    velocity: vectorSchema,
+    mass: z.number().positive(),
+    fuel: z.number().min(0),
+    maxFuel: z.number().min(0),
+    maxMass: z.number().positive(),
+    orbitalElements: z.object({
+      semiMajorAxis: z.number(),
+      eccentricity: z.number().min(0),
+      inclination: z.number(),
+      longitudeOfAscendingNode: z.number(),
+      argumentOfPeriapsis: z.number(),
+      trueAnomaly: z.number(),
+      meanAnomaly: z.number(),
+      altitude: z.number(),
+      epoch: z.number(),
+      eccentricAnomaly: z.number().optional(),
+      hyperbolicAnomaly: z.number().optional(),
+      semiLatusRectum: z.number().optional(),
+      argumentOfLatitude: z.number().optional(),
+      trueLongitude: z.number().optional()
+    }),
+    isBurning: z.boolean(),
+    design: spacecraftDesignSchema,
+    stage: z.number().int().min(0),
+    thrust: z.number().min(0),
+    specificImpulse: z.number().min(0).transform(seconds),
+    dragCoefficient: z.number().positive(),
+    dragArea: z.number().min(0),
+    srpArea: z.number().min(0),
+    reflectivity: z.number().min(1).max(2)
+  }).refine((spacecraft) => spacecraft.stage < spacecraft.design.stages.length, {
+    message: 'Active stage is not in the design',
+    path: ['stage']
+  }),
+  hazards: z.array(z.discriminatedUnion('type', [
+    z.object({ ...hazardFields, type: z.literal('radiation'), kpIndex: z.number() }),
+    z.object({ ...hazardFields, type: z.literal('debris'), velocity: vectorSchema, mass: z.number() }),
+    z.object({
+      ...hazardFields,
+      type: z.literal('perturbation'),
+      source: z.enum(['thrusterLeak', 'outgassing', 'solarWind']),
+      force: vectorSchema
+    })
+  ])),
+  missionEvents: z.array(z.object({
+    id: z.number().int(),
+    time: z.number(),
+    epoch: z.number(),
+    type: z.enum(['burn', 'hazard', 'milestone', 'orbit']),
+    description: z.string(),
+    deltaV: z.number().optional()
+  })),
+  score: z.number()
+});
+
+// The simulation lives in a SimulationEngine; the store mirrors its state
+// for React and adds what only the view needs (warp, pause, render scale)
+interface SpaceGameState extends SimulationSettings {
+  engine: SimulationEngine;
+
   // Game objects
   spacecraft: Spacecraft;
   earth: CelestialBody;
   moon: CelestialBody;
   hazards: Hazard[];
-  
+
   // Game state
-  gameTime: number;
+  gameTime: number;                 // Mission elapsed time (s)
   timeWarp: number;
+  paused: boolean;
+  renderScale: RenderScale;         // Physics km -> scene units
   missionEvents: MissionEvent[];
+  scheduledBurns: ScheduledBurn[];
+  activeBurn: FiniteBurn | null;    // Main engine running
   score: number;
-  
+  ended: boolean;
+  endReason: MissionEndReason | null;
+  transfer: TransferPlan | null;    // Targeted transfer shown in the scene
+  burnReference: BurnReference;     // Frame the burn keys are resolved in
+
   // Actions
+  step: (dt: number) => void;
+  startBurnAlong: (amounts: BurnAmounts, deltaV: MetersPerSecond) => FiniteBurn | null;
+  stopBurn: () => void;
+  jettisonStage: () => StageDefinition | null;
+  setBurnReference: (reference: BurnReference) => void;
   updateSpacecraft: (spacecraft: Spacecraft) => void;
-  updateGameTime: (time: number) => void;
-  updateHazards: (hazards: Hazard[]) => void;
-  addMissionEvent: (event: MissionEvent) => void;
+  addMissionEvent: (event: Omit<MissionEvent, 'id' | 'time' | 'epoch'>) => void;
+  planTransfer: (target: TransferTarget, timeOfFlight: number, maxRevolutions: number) => TransferPlan | null;
+  executeTransfer: () => void;
+  clearTransfer: () => void;
+  scheduleBurns: (burns: Omit<ScheduledBurn, 'id'>[]) => void;
+  updateScheduledBurn: (id: number, changes: Partial<Omit<ScheduledBurn, 'id'>>) => void;
+  removeScheduledBurn: (id: number) => void;
+  cancelScheduledBurns: () => void;
   toggleTimeWarp: () => void;
-  resetMission: () => void;
+  togglePause: () => void;
+  setIntegrator: (integrator: PropagationMethod) => void;
+  setZonalDegree: (zonalDegree: number) => void;
+  setAtmosphere: (atmosphere: Partial<AtmosphereOptions>) => void;
+  setReentryAltitude: (altitude: number) => void;
+  setSolarGravity: (enabled: boolean) => void;
+  setSolarRadiationPressure: (enabled: boolean) => void;
+  setMissionEpoch: (missionEpoch: number) => void;
+  setHazardSeed: (hazardSeed: number) => void;
+  setMoonEphemeris: (mode: MoonEphemerisMode) => void;
+  setRenderScale: (renderScale: RenderScale) => void;
+  resetMission: (design?: SpacecraftDesign) => void;
+  loadScenario: (scenario: Scenario) => void;
+  exportMission: () => MissionSave;
+  importMission: (save: MissionSave) => void;
 }
 
-// Initial spacecraft in Low Earth Orbit
-// Using visualization scale (Earth radius ~6.37 units)
-const VISUALIZATION_SCALE = 1000; // 1 unit = 1000 km
-const earthVisRadius = EARTH_RADIUS / VISUALIZATION_SCALE;
-const spacecraftAltitude = 300 / VISUALIZATION_SCALE; // 300km -> 0.3 units
-
-const initialSpacecraft: Spacecraft = {
-  position: { x: 0, y: 0, z: earthVisRadius + spacecraftAltitude }, // 300km altitude in visualization scale
-  // Reduce initial orbital speed to slow the satellite visually
-  velocity: { x: 0.0039, y: 0, z: 0 }, // half speed for clearer visibility
-  mass: 1000, // kg
-  fuel: 500, // kg
-  maxFuel: 500,
-  maxMass: 1000,
-  orbitalElements: {
-    semiMajorAxis: earthVisRadius + spacecraftAltitude,
-    eccentricity: 0.01,
-    inclination: 0.1, // ~6 degrees
-    longitudeOfAscendingNode: 0,
-    argumentOfPeriapsis: 0,
-    trueAnomaly: 0,
-    meanAnomaly: 0,
-    altitude: spacecraftAltitude * VISUALIZATION_SCALE // Keep altitude in km for UI
-  },
-  isBurning: false
-};
-
-const initialEarth: CelestialBody = {
-  position: { x: 0, y: 0, z: 0 },
-  radius: earthVisRadius, // Scaled down for visualization
-  mass: 5.972e24,
-  mu: MU_EARTH / (VISUALIZATION_SCALE * VISUALIZATION_SCALE * VISUALIZATION_SCALE) // Scale mu for visualization units
-};
+// Engine state as seen by the view
+function engineView(engine: SimulationEngine) {
+  return {
+    ...engine.settings,
+    spacecraft: engine.spacecraft,
+    earth: engine.earth,
+    moon: engine.moon,
+    hazards: engine.hazards,
+    gameTime: engine.gameTime,
+    missionEvents: engine.missionEvents,
+    scheduledBurns: engine.scheduledBurns,
+    activeBurn: engine.activeBurn,
+    score: engine.score,
+    ended: engine.ended,
+    endReason: engine.endReason
+  };
+}
 
-const initialMoon: CelestialBody = {
-  position: { x: 60, y: 0, z: 0 }, // Simplified moon position
-  radius: 1.737, // Moon radius in visualization scale
-  mass: 7.342e22,
-  // Scale Moon mu to visualization units (similar scale used for Earth mu above)
-  mu: 4902.7779 / (VISUALIZATION_SCALE * VISUALIZATION_SCALE * VISUALIZATION_SCALE)
-};
+// Force-model settings for updateOrbitalMotion / perturbingForces at the current game time
+export function getMotionOptions(state: SpaceGameState): MotionOptions {
+  return motionOptions(state.engine.settings, state.gameTime);
+}
 
 export const useSpaceGame = create<SpaceGameState>()(
-  subscribeWithSelector((set, get) => ({
-    // Initial state
-    spacecraft: initialSpacecraft,
-    earth: initialEarth,
-    moon: initialMoon,
-    hazards: generateRandomHazards(5, 0),
-    gameTime: 0,
-    timeWarp: 2,
-    missionEvents: [],
-    score: 1000,
-    
-    // Actions
-    updateSpacecraft: (spacecraft) => {
-      set({ spacecraft: { ...spacecraft, isBurning: false } });
-      
-      // Update score based on fuel efficiency
-      const fuelEfficiency = spacecraft.fuel / spacecraft.maxFuel;
-      const newScore = 1000 * fuelEfficiency;
-      set({ score: newScore });
-    },
-    
-    updateGameTime: (time) => set({ gameTime: time }),
-    
-    updateHazards: (hazards) => set({ hazards }),
-    
-    addMissionEvent: (event) => {
-      const { missionEvents } = get();
-      set({ missionEvents: [...missionEvents, event] });
-    },
-    
-    toggleTimeWarp: () => {
-      const { timeWarp } = get();
-      // Limit max time warp to slow overall simulation speed for visibility
-      const newTimeWarp = timeWarp === 1 ? 2 : 1;
-      set({ timeWarp: newTimeWarp });
-    },
-    
-    resetMission: () => {
-      set({
-        spacecraft: { ...initialSpacecraft },
-        gameTime: 0,
-        timeWarp: 1,
-        missionEvents: [],
-        score: 1000,
-        hazards: generateRandomHazards(5, 0)
-      });
-    }
-  }))
-);
+  subscribeWithSelector((set, get) => {
+    const engine = new SimulationEngine();
+    // Separations and burns of a loaded scenario still to come
+    let timeline: ((engine: SimulationEngine) => void) | null = null;
+    // Run an engine mutation, then publish the new state
+    const update = <T,>(change: () => T): T => {
+      const result = change();
+      set(engineView(engine));
+      return result;
+    };
+
+    return {
+      // Initial state
+      engine,
+      ...engineView(engine),
+      timeWarp: 2,
+      paused: false,
+      renderScale: DEFAULT_RENDER_SCALE,
+      transfer: null,
+      burnReference: 'vnb',
+
+      // Actions
+      // A step the integrator cannot finish stops at the last state it
+      // completed and pauses the game rather than flying on from a partial one
+      step: (dt) => {
+        try {
+          update(() => {
+            timeline?.(engine);
+            engine.step(dt);
+          });
+        } catch (error) {
+          if (!(error instanceof PropagationError)) throw error;
+          update(() => engine.addEvent({ type: 'milestone', description: `${error.message}; paused` }));
+          set({ paused: true });
+          return;
+        }
+        if (engine.ended) useGame.getState().end();
+      },
+
+      // Orbit frames are tracked through the burn; lines of sight to the
+      // target or the Sun are fixed inertially when the engine lights
+      startBurnAlong: (amounts, deltaV) => {
+        const { burnReference } = get();
+        const components = referenceComponents(burnReference, amounts);
+        return update(() => burnReference === 'target' || burnReference === 'sun'
+          ? engine.startBurn(
+            toInertial(components, referenceBasis(burnReference, engine.spacecraft, engine.referencePoints())),
+            'inertial',
+            deltaV
+          )
+          : engine.startBurn(components, burnReference, deltaV));
+      },
+
+      stopBurn: () => update(() => engine.stopBurn()),
+
+      jettisonStage: () => update(() => engine.jettison()),
+
+      setBurnReference: (burnReference) => set({ burnReference }),
+
+      updateSpacecraft: (spacecraft) => update(() => engine.setSpacecraft(spacecraft)),
+
+      addMissionEvent: (event) => update(() => engine.addEvent(event)),
+
+      planTransfer: (target, timeOfFlight, maxRevolutions) => {
+        const transfer = engine.planTransfer(target, engine.gameTime + timeOfFlight, maxRevolutions);
+        set({ transfer });
+        return transfer;
+      },
+
+      // Re-solve from the current state for the planned arrival time, since
+      // the spacecraft has moved on since planning, then light the engine
+      // along the departure Δv
+      executeTransfer: () => {
+        const { transfer } = get();
+        if (!transfer) return;
+        const plan = engine.planTransfer(transfer.target, transfer.arrivalTime, transfer.maxRevolutions);
+        set({ transfer: null });
+        if (!plan) return;
+
+        update(() => engine.startBurn(
+          plan.deltaV,
+          'inertial',
+          toMetersPerSecond(kmPerSecond(magnitude(plan.deltaV))),
+          'Transfer burn'
+        ));
+      },
+
+      clearTransfer: () => set({ transfer: null }),
+
+      scheduleBurns: (burns) => update(() => engine.scheduleBurns(burns)),
+
+      updateScheduledBurn: (id, changes) => update(() => engine.updateScheduledBurn(id, changes)),
+
+      removeScheduledBurn: (id) => update(() => engine.removeScheduledBurn(id)),
+
+      cancelScheduledBurns: () => update(() => engine.cancelScheduledBurns()),
+
+      toggleTimeWarp: () => {
+        const { timeWarp } = get();
+        // Limit max time warp to slow overall simulation speed for visibility
+        const newTimeWarp = timeWarp === 1 ? 2 : 1;
+        set({ timeWarp: newTimeWarp });
+      },
+
+      togglePause: () => set({ paused: !get().paused }),
+
+      setIntegrator: (integrator) => update(() => engine.configure({ integrator })),
+
+      setZonalDegree: (zonalDegree) => update(() => engine.configure({ zonalDegree })),
+
+      setAtmosphere: (atmosphere) => update(() => engine.configure({ atmosphere: { ...engine.settings.atmosphere, ...atmosphere } })),
+
+      setReentryAltitude: (reentryAltitude) => update(() => engine.configure({ reentryAltitude })),
+
+      setSolarGravity: (solarGravity) => update(() => engine.configure({ solarGravity })),
+
+      setSolarRadiationPressure: (solarRadiationPressure) => update(() => engine.configure({ solarRadiationPressure })),
+
+      setMissionEpoch: (missionEpoch) => update(() => engine.configure({ missionEpoch })),
+
+      setMoonEphemeris: (moonEphemeris) => update(() => engine.configure({ moonEphemeris })),
+
+      // The hazard generator is re-seeded when the mission is next reset
+      setHazardSeed: (hazardSeed) => update(() => engine.configure({ hazardSeed })),
+
+      setRenderScale: (renderScale) => set({ renderScale }),
+
+      // Starts over with the given design, or the one flying now
+      resetMission: (design) => {
+        update(() => engine.reset(createSpacecraft(
+          initialOrbitalElements(engine.settings.missionEpoch),
+          design ?? engine.spacecraft.design
+        )));
+        timeline = null;
+        set({ timeWarp: 1, paused: false, transfer: null });
+
+        // A reset starts a fresh mission even after the last one ended
+        useGame.getState().restart();
+        useGame.getState().start();
+      },
+
+      // Starts the scenario's mission and flies its burn schedule; the
+      // duration and objectives only matter to the CLI
+      loadScenario: (scenario) => {
+        update(() => engine.restore(createScenarioEngine(scenario).snapshot()));
+        timeline = scenarioTimeline(scenario);
+        set({ renderScale: scenario.renderScale ?? DEFAULT_RENDER_SCALE, timeWarp: 1, paused: false, transfer: null });
+        useGame.getState().restart();
+        useGame.getState().start();
+      },
+
+      exportMission: () => {
+        const { settings, gameTime, spacecraft, hazards, missionEvents, score, randomState } = engine.snapshot();
+        return {
+          version: 1,
+          missionEpoch: settings.missionEpoch,
+          epoch: epochAt(settings.missionEpoch, gameTime),
+          missionElapsedTime: gameTime,
+          moonEphemeris: settings.moonEphemeris,
+          hazardSeed: settings.hazardSeed,
+          randomState,
+          renderScale: get().renderScale,
+          spacecraft,
+          hazards,
+          missionEvents,
+          score
+        };
+      },
 
-// Subscribe to spacecraft changes to detect mission milestones
-useSpaceGame.subscribe(
-  (state) => state.spacecraft,
-  (spacecraft) => {
-    const { moon, addMissionEvent } = useSpaceGame.getState();
-    
-    // Check if reached moon's sphere of influence
-    const distanceToMoon = Math.sqrt(
-      (spacecraft.position.x - moon.position.x) ** 2 +
-      (spacecraft.position.y - moon.position.y) ** 2 +
-      (spacecraft.position.z - moon.position.z) ** 2
-    );
-    
-    if (distanceToMoon < 10) { // Within 10 units of moon
-      addMissionEvent({
-        time: Date.now(),
-        type: 'milestone',
-        description: 'Entered Moon\'s sphere of influence!'
-      });
-    }
-    
-    // Check for low fuel warning
-    if (spacecraft.fuel < 100 && spacecraft.fuel > 0) {
-      addMissionEvent({
-        time: Date.now(),
-        type: 'hazard',
-        description: 'Low fuel warning!'
-      });
-    }
-  }
+      // A loaded mission carries on from the saved state, even if the one
+      // flying now has ended. Saves hold no engine or node state, so the
+      // loaded craft is coasting.
+      importMission: (save) => {
+        const { missionEpoch, moonEphemeris, hazardSeed, missionElapsedTime } = save;
+        update(() => engine.restore({
+          settings: { ...engine.settings, missionEpoch, moonEphemeris, hazardSeed },
+          gameTime: missionElapsedTime,
+          spacecraft: { ...save.spacecraft, isBurning: false },
+          earth: engine.earth,
+          moon: { ...engine.moon, ...moonStateAt(missionElapsedTime, missionEpoch, moonEphemeris) },
+          hazards: save.hazards,
+          missionEvents: save.missionEvents,
+          scheduledBurns: [],
+          activeBurn: null,
+          score: save.score,
+          ended: false,
+          endReason: null,
+          randomState: save.randomState
+        }));
+        timeline = null;
+        set({ renderScale: save.renderScale, paused: false, transfer: null });
+        useGame.getState().restart();
+        useGame.getState().start();
+      }
+    };
+  })
 );
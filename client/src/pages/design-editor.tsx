@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSpaceGame } from "@/lib/stores/useSpaceGame";
+import { designChoices, useDesigns } from "@/lib/stores/useDesigns";
+import { EARTH_BODY, MOON_RADIUS, MU_MOON } from "@shared/physics/orbitalMechanics";
+import {
+  ENGINE_PARTS,
+  EngineDefinition,
+  RCS_PARTS,
+  RcsDefinition,
+  SpacecraftDesign,
+  StageDefinition,
+  TANK_PARTS,
+  TankPart,
+  designMass,
+  stageBudgets,
+  stageThrust,
+  thrustToWeight,
+  totalDeltaV,
+  validateDesign
+} from "@shared/physics/spacecraftDesign";
+import { formatDuration } from "@shared/physics/time";
+
+const MOON_BODY = { mu: MU_MOON, radius: MOON_RADIUS };
+
+const NEW_STAGE: StageDefinition = { name: 'New stage', dryMass: 100, propellant: 0, engines: [] };
+
+// React keys for stage rows, kept alongside the stages so inputs follow their
+// stage when the stack is reordered
+let nextStageKey = 0;
+const stageKeys = (count: number) => Array.from({ length: count }, () => nextStageKey++);
+
+// Builds spacecraft designs from parts: stages stacked bottom to top, with
+// the mass and staged Δv budget updating as parts are added
+export default function DesignEditor() {
+  const [, navigate] = useLocation();
+  const { designs, saveDesign, deleteDesign } = useDesigns();
+  const currentDesign = useSpaceGame((state) => state.spacecraft.design);
+  const [design, setDesign] = useState<SpacecraftDesign>(() => structuredClone(currentDesign));
+  const [keys, setKeys] = useState(() => stageKeys(currentDesign.stages.length));
+  const [selected, setSelected] = useState(0);
+  const [saved, setSaved] = useState(false);
+
+  const choices = designChoices(designs);
+  const budgets = stageBudgets(design);
+  const warnings = validateDesign(design);
+  const selectedStage = Math.min(selected, design.stages.length - 1);
+
+  const change = (next: SpacecraftDesign) => {
+    setDesign(next);
+    setSaved(false);
+  };
+
+  const updateStage = (index: number, update: (stage: StageDefinition) => StageDefinition) =>
+    change({ ...design, stages: design.stages.map((stage, i) => (i === index ? update(stage) : stage)) });
+
+  const load = (key: string) => {
+    const choice = choices.find((option) => option.key === key);
+    if (!choice) return;
+    change(structuredClone(choice.design));
+    setKeys(stageKeys(choice.design.stages.length));
+    setSelected(0);
+  };
+
+  // New stages go on top of the stack
+  const addStage = () => {
+    change({ ...design, stages: [...design.stages, { ...NEW_STAGE, name: `Stage ${design.stages.length + 1}` }] });
+    setKeys([...keys, ...stageKeys(1)]);
+    setSelected(design.stages.length);
+  };
+
+  const removeStage = (index: number) => {
+    change({ ...design, stages: design.stages.filter((_, i) => i !== index) });
+    setKeys(keys.filter((_, i) => i !== index));
+    setSelected(Math.max(0, index - 1));
+  };
+
+  // Swap a stage with the one above (+1) or below (-1) it
+  const moveStage = (index: number, offset: 1 | -1) => {
+    const target = index + offset;
+    if (target < 0 || target >= design.stages.length) return;
+    const stages = [...design.stages];
+    const reordered = [...keys];
+    [stages[index], stages[target]] = [stages[target], stages[index]];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    change({ ...design, stages });
+    setKeys(reordered);
+    setSelected(target);
+  };
+
+  const addTank = (tank: TankPart) => updateStage(selectedStage, (stage) => ({
+    ...stage,
+    dryMass: stage.dryMass + tank.dryMass,
+    propellant: stage.propellant + tank.propellant
+  }));
+
+  // Another engine of a type already fitted adds to its count
+  const addEngine = (engine: EngineDefinition) => updateStage(selectedStage, (stage) => ({
+    ...stage,
+    engines: stage.engines.some((fitted) => fitted.name === engine.name)
+      ? stage.engines.map((fitted) => (fitted.name === engine.name ? { ...fitted, count: fitted.count + 1 } : fitted))
+      : [...stage.engines, { ...engine }]
+  }));
+
+  // A count of zero takes the engine off
+  const setEngineCount = (index: number, name: string, count: number) => updateStage(index, (stage) => ({
+    ...stage,
+    engines: stage.engines
+      .map((engine) => (engine.name === name ? { ...engine, count } : engine))
+      .filter((engine) => engine.count > 0)
+  }));
+
+  const setRcs = (index: number, rcs: RcsDefinition | undefined) => updateStage(index, (stage) => ({ ...stage, rcs }));
+
+  const save = () => {
+    saveDesign(design);
+    setSaved(true);
+  };
+
+  const fly = () => {
+    useSpaceGame.getState().resetMission(design);
+    navigate("/");
+  };
+
+  const isSaved = designs.some((option) => option.name === design.name);
+
+  const numberField = (label: string, value: number, onChange: (value: number) => void) => (
+    <div>
+      <span className="text-gray-400 text-xs">{label}</span>
+      <Input
+        type="number"
+        min={0}
+        className="h-8 mt-1 bg-transparent"
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen p-4 text-white">
+      <div className="max-w-6xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Spacecraft Designer</h1>
+          <Link href="/" className="text-blue-400 hover:underline">Back to mission</Link>
+        </div>
+
+        <Card className="bg-black/80 text-white border-gray-600">
+          <CardContent className="pt-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <span className="text-gray-400 text-xs">Design name</span>
+              <Input
+                className="h-8 mt-1 bg-transparent"
+                value={design.name}
+                onChange={(e) => change({ ...design, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <span className="text-gray-400 text-xs">Start from</span>
+              <Select value="" onValueChange={load}>
+                <SelectTrigger className="h-8 mt-1 bg-transparent">
+                  <SelectValue placeholder="Load a design" />
+                </SelectTrigger>
+                <SelectContent>
+                  {choices.map(({ key, design: option }) => (
+                    <SelectItem key={key} value={key}>
+                      {option.name}{key.startsWith('saved:') ? ' (saved)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end gap-2">
+              <Button onClick={save} disabled={warnings.length > 0} size="sm" className="flex-1">
+                {saved ? 'Saved' : 'Save'}
+              </Button>
+              {isSaved && (
+                <Button onClick={() => deleteDesign(design.name)} variant="outline" size="sm" className="flex-1">
+                  Delete
+                </Button>
+              )}
+              <Button onClick={fly} disabled={warnings.length > 0} variant="outline" size="sm" className="flex-1">
+                Fly
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {warnings.length > 0 && (
+          <div className="p-3 rounded border border-yellow-600 bg-yellow-950/60 text-yellow-200 text-sm space-y-1">
+            {warnings.map((warning) => <div key={warning}>⚠ {warning}</div>)}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Parts list */}
+          <Card className="bg-black/80 text-white border-gray-600">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg">Parts</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="text-xs text-gray-400">
+                Added to {design.stages[selectedStage]?.name ?? 'no stage'}
+              </div>
+              <div className="space-y-1">
+                <div className="font-semibold">Tanks</div>
+                {TANK_PARTS.map((tank) => (
+                  <div key={tank.name} className="flex items-center justify-between gap-2">
+                    <span>{tank.name}</span>
+                    <span className="text-xs text-gray-400 flex-1 text-right">{tank.dryMass} + {tank.propellant} kg</span>
+                    <Button onClick={() => addTank(tank)} disabled={design.stages.length === 0} variant="outline" size="sm" className="h-7">
+                      Add
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-1">
+                <div className="font-semibold">Engines</div>
+                {ENGINE_PARTS.map((engine) => (
+                  <div key={engine.name} className="flex items-center justify-between gap-2">
+                    <span>{engine.name}</span>
+                    <span className="text-xs text-gray-400 flex-1 text-right">{engine.thrust} N, {engine.vacuumIsp} s</span>
+                    <Button onClick={() => addEngine(engine)} disabled={design.stages.length === 0} variant="outline" size="sm" className="h-7">
+                      Add
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-1">
+                <div className="font-semibold">RCS</div>
+                {RCS_PARTS.map((rcs) => (
+                  <div key={rcs.thrust} className="flex items-center justify-between gap-2">
+                    <span>RCS block</span>
+                    <span className="text-xs text-gray-400 flex-1 text-right">{rcs.thrust} N, {rcs.propellant} kg</span>
+                    <Button onClick={() => setRcs(selectedStage, { ...rcs })} disabled={design.stages.length === 0} variant="outline" size="sm" className="h-7">
+                      Fit
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Stage stack, top of the stack first */}
+          <Card className="bg-black/80 text-white border-gray-600">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg">Stages</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <Button onClick={addStage} variant="outline" size="sm" className="w-full">
+                Add Stage on Top
+              </Button>
+              {design.stages.map((stage, i) => (
+                <div
+                  key={keys[i]}
+                  onClick={() => setSelected(i)}
+                  className={`p-2 rounded border space-y-2 cursor-pointer ${i === selectedStage ? 'border-blue-500' : 'border-gray-700'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-400">
+                      Stage {i + 1}{i === 0 ? ' (burns first)' : ''}
+                    </span>
+                    <div className="flex gap-1">
+                      <Button onClick={() => moveStage(i, 1)} disabled={i === design.stages.length - 1} variant="outline" size="sm" className="h-6 px-2">
+                        ↑
+                      </Button>
+                      <Button onClick={() => moveStage(i, -1)} disabled={i === 0} variant="outline" size="sm" className="h-6 px-2">
+                        ↓
+                      </Button>
+                      <Button onClick={() => removeStage(i)} variant="outline" size="sm" className="h-6 px-2">
+                        ✕
+                      </Button>
+                    </div>
+                  </div>
+                  <Input
+                    className="h-8 bg-transparent"
+                    value={stage.name}
+                    onChange={(e) => updateStage(i, (current) => ({ ...current, name: e.target.value }))}
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    {numberField('Dry mass (kg)', stage.dryMass, (dryMass) => updateStage(i, (current) => ({ ...current, dryMass })))}
+                    {numberField('Propellant (kg)', stage.propellant, (propellant) => updateStage(i, (current) => ({ ...current, propellant })))}
+                  </div>
+                  {stage.engines.map((engine) => (
+                    <div key={engine.name} className="flex items-center justify-between gap-2 text-xs">
+                      <span>{engine.name} × {engine.count}</span>
+                      <div className="flex gap-1">
+                        <Button onClick={() => setEngineCount(i, engine.name, engine.count + 1)} variant="outline" size="sm" className="h-6 px-2">
+                          +
+                        </Button>
+                        <Button onClick={() => setEngineCount(i, engine.name, engine.count - 1)} variant="outline" size="sm" className="h-6 px-2">
+                          −
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  {stage.rcs && (
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span>RCS {stage.rcs.thrust} N, {stage.rcs.propellant} kg</span>
+                      <Button onClick={() => setRcs(i, undefined)} variant="outline" size="sm" className="h-6 px-2">
+                        ✕
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )).reverse()}
+            </CardContent>
+          </Card>
+
+          {/* Mass and Δv budget */}
+          <Card className="bg-black/80 text-white border-gray-600">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg">Budget</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="grid grid-cols-2 gap-1">
+                <span className="text-gray-400">Total mass</span>
+                <span className="text-right font-mono">{designMass(design).toFixed(0)} kg</span>
+                <span className="text-gray-400">Total Δv</span>
+                <span className="text-right font-mono">{totalDeltaV(budgets).toFixed(0)} m/s</span>
+              </div>
+              {budgets.map((budget, i) => {
+                const stage = design.stages[i];
+                const earthTwr = thrustToWeight(stageThrust(stage, 'seaLevel'), budget.startMass, EARTH_BODY);
+                const moonTwr = thrustToWeight(budget.thrust, budget.startMass, MOON_BODY);
+                return (
+                  <div key={keys[i]} className="p-2 rounded border border-gray-700">
+                    <div className="font-semibold">{budget.name}</div>
+                    <div className="grid grid-cols-2 gap-1 text-xs mt-1">
+                      <span className="text-gray-400">Mass</span>
+                      <span className="text-right font-mono">{budget.startMass.toFixed(0)} → {budget.endMass.toFixed(0)} kg</span>
+                      <span className="text-gray-400">Δv</span>
+                      <span className="text-right font-mono">{budget.deltaV.toFixed(0)} m/s</span>
+                      {budget.rcsDeltaV > 0 && (
+                        <>
+                          <span className="text-gray-400">RCS Δv (attitude only)</span>
+                          <span className="text-right font-mono">{budget.rcsDeltaV.toFixed(1)} m/s</span>
+                        </>
+                      )}
+                      <span className="text-gray-400">Burn time</span>
+                      <span className="text-right font-mono">{formatDuration(budget.burnTime)}</span>
+                      <span className="text-gray-400">TWR Earth (sea level)</span>
+                      <span className={`text-right font-mono ${earthTwr < 1 ? 'text-gray-500' : ''}`}>{earthTwr.toFixed(2)}</span>
+                      <span className="text-gray-400">TWR Moon</span>
+                      <span className={`text-right font-mono ${moonTwr < 1 ? 'text-gray-500' : ''}`}>{moonTwr.toFixed(2)}</span>
+                    </div>
+                  </div>
+                );
+              }).reverse()}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
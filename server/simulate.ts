@@ -0,0 +1,135 @@
+// Command-line mission simulator
+//
+//   npm run simulate -- <scenario.json> [--out <dir>] [--format csv|json]
+//
+// Writes the trajectory, event log and summary to the output directory and
+// exits with 0 when every objective is met, 1 when any is missed and 2 for
+// usage errors, an invalid scenario or one the propagator cannot finish.
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { fromZodError } from "zod-validation-error";
+import { ScenarioResult, TrajectoryPoint, runScenario, scenarioSchema } from "@shared/scenario";
+import { PropagationError } from "@shared/physics/propagator";
+
+const EXIT_SUCCESS = 0;
+const EXIT_OBJECTIVES_MISSED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = "Usage: npm run simulate -- <scenario.json> [--out <dir>] [--format csv|json]";
+
+interface CliOptions {
+  scenarioPath: string;
+  outDir: string;
+  format: 'csv' | 'json';
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions {
+  let scenarioPath: string | undefined;
+  let outDir = "simulation-output";
+  let format: CliOptions['format'] = 'csv';
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--out") {
+      const value = args[++i];
+      if (!value) throw new UsageError("--out needs a directory");
+      outDir = value;
+    } else if (arg === "--format") {
+      const value = args[++i];
+      if (value !== 'csv' && value !== 'json') throw new UsageError("--format must be csv or json");
+      format = value;
+    } else if (arg.startsWith("--")) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else if (scenarioPath) {
+      throw new UsageError("Only one scenario file can be given");
+    } else {
+      scenarioPath = arg;
+    }
+  }
+
+  if (!scenarioPath) throw new UsageError("Missing scenario file");
+  return { scenarioPath, outDir, format };
+}
+
+const TRAJECTORY_COLUMNS: (keyof TrajectoryPoint)[] = [
+  'time', 'epoch', 'primary', 'x', 'y', 'z', 'vx', 'vy', 'vz', 'altitude', 'mass', 'fuel'
+];
+
+function trajectoryCsv(trajectory: TrajectoryPoint[]): string {
+  const rows = trajectory.map((point) => TRAJECTORY_COLUMNS.map((column) => point[column]).join(","));
+  return [TRAJECTORY_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+async function writeOutputs(result: ScenarioResult, options: CliOptions) {
+  await mkdir(options.outDir, { recursive: true });
+  const trajectoryFile = path.join(options.outDir, `trajectory.${options.format}`);
+  await writeFile(trajectoryFile, options.format === 'csv'
+    ? trajectoryCsv(result.trajectory)
+    : JSON.stringify(result.trajectory, null, 2));
+  await writeFile(path.join(options.outDir, "events.json"), JSON.stringify(result.events, null, 2));
+  await writeFile(path.join(options.outDir, "summary.json"), JSON.stringify({
+    name: result.name,
+    score: result.score,
+    success: result.success,
+    objectives: result.objectives
+  }, null, 2));
+}
+
+function printSummary(result: ScenarioResult, options: CliOptions) {
+  console.log(`Scenario: ${result.name}`);
+  console.log(`Events: ${result.events.length}, trajectory samples: ${result.trajectory.length}`);
+  for (const { objective, met, detail } of result.objectives) {
+    console.log(`  [${met ? "PASS" : "FAIL"}] ${objective}: ${detail}`);
+  }
+  console.log(`Final score: ${result.score.toFixed(0)}`);
+  console.log(`Output written to ${options.outDir}`);
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(error.message);
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(options.scenarioPath, "utf8"));
+  } catch (error) {
+    console.error(`Could not read scenario ${options.scenarioPath}: ${(error as Error).message}`);
+    return EXIT_USAGE;
+  }
+
+  const parsed = scenarioSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error(`Invalid scenario ${options.scenarioPath}: ${fromZodError(parsed.error).message}`);
+    return EXIT_USAGE;
+  }
+
+  let result: ScenarioResult;
+  try {
+    result = runScenario(parsed.data);
+  } catch (error) {
+    if (!(error instanceof PropagationError)) throw error;
+    console.error(`Scenario ${options.scenarioPath} could not be propagated: ${error.message}`);
+    return EXIT_USAGE;
+  }
+  await writeOutputs(result, options);
+  printSummary(result, options);
+  return result.success ? EXIT_SUCCESS : EXIT_OBJECTIVES_MISSED;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(EXIT_USAGE);
+  }
+);
@@ -0,0 +1,99 @@
+// Earth atmosphere density models and the drag force they produce
+
+import { CentralBody } from "./orbitalMechanics";
+import { ForceModel } from "./propagator";
+import { magnitude } from "./vectorMath";
+
+export type AtmosphereModel = 'none' | 'exponential' | 'solarFlux';
+
+export interface AtmosphereOptions {
+  model: AtmosphereModel;
+  solarFlux?: number;         // F10.7 index (solar flux units), solarFlux model only
+  geomagneticIndex?: number;  // Ap index, solarFlux model only
+}
+
+// Cannonball drag properties of a spacecraft
+export interface BallisticProperties {
+  mass: number;             // kg
+  dragCoefficient: number;  // Cd
+  dragArea: number;         // Cross-section (m²)
+}
+
+export const EARTH_ROTATION_RATE = 7.292115e-5; // rad/s
+export const DEFAULT_REENTRY_ALTITUDE = 120;    // km
+export const DEFAULT_ATMOSPHERE: AtmosphereOptions = { model: 'exponential', solarFlux: 150, geomagneticIndex: 15 };
+
+// Piecewise exponential atmosphere (Vallado, table 8-4):
+// [base altitude (km), density at base (kg/m³), scale height (km)]
+const EXPONENTIAL_TABLE: [number, number, number][] = [
+  [0, 1.225, 7.249], [25, 3.899e-2, 6.349], [30, 1.774e-2, 6.682],
+  [40, 3.972e-3, 7.554], [50, 1.057e-3, 8.382], [60, 3.206e-4, 7.714],
+  [70, 8.770e-5, 6.549], [80, 1.905e-5, 5.799], [90, 3.396e-6, 5.382],
+  [100, 5.297e-7, 5.877], [110, 9.661e-8, 7.263], [120, 2.438e-8, 9.473],
+  [130, 8.484e-9, 12.636], [140, 3.845e-9, 16.149], [150, 2.070e-9, 22.523],
+  [180, 5.464e-10, 29.740], [200, 2.789e-10, 37.105], [250, 7.248e-11, 45.546],
+  [300, 2.418e-11, 53.628], [350, 9.518e-12, 53.298], [400, 3.725e-12, 58.515],
+  [450, 1.585e-12, 60.828], [500, 6.967e-13, 63.822], [600, 1.454e-13, 71.835],
+  [700, 3.614e-14, 88.667], [800, 1.170e-14, 124.64], [900, 5.245e-15, 181.05],
+  [1000, 3.019e-15, 268.00]
+];
+
+// Above this altitude drag is negligible for the game
+const ATMOSPHERE_CEILING = 1500; // km
+
+export function exponentialDensity(altitude: number): number {
+  if (altitude >= ATMOSPHERE_CEILING) return 0;
+  let layer = EXPONENTIAL_TABLE[0];
+  for (const entry of EXPONENTIAL_TABLE) {
+    if (altitude >= entry[0]) layer = entry;
+  }
+  const [baseAltitude, baseDensity, scaleHeight] = layer;
+  return baseDensity * Math.exp(-(Math.max(altitude, 0) - baseAltitude) / scaleHeight);
+}
+
+// Solar-activity dependent density between 180 and 500 km (King-Hele's
+// model, as used for decay predictions): the exospheric temperature and so
+// the scale height grow with F10.7 and Ap. Outside that band the exponential
+// table is used.
+export function solarFluxDensity(altitude: number, solarFlux: number = 150, geomagneticIndex: number = 15): number {
+  if (altitude < 180 || altitude > 500) return exponentialDensity(altitude);
+  const temperature = 900 + 2.5 * (solarFlux - 70) + 1.5 * geomagneticIndex; // K
+  const molecularMass = 27 - 0.012 * (altitude - 200);
+  const scaleHeight = temperature / molecularMass; // km
+  return 6e-10 * Math.exp(-(altitude - 175) / scaleHeight);
+}
+
+// Density (kg/m³) at an altitude (km)
+export function atmosphericDensity(altitude: number, options: AtmosphereOptions): number {
+  switch (options.model) {
+    case 'exponential':
+      return exponentialDensity(altitude);
+    case 'solarFlux':
+      return solarFluxDensity(altitude, options.solarFlux, options.geomagneticIndex);
+    default:
+      return 0;
+  }
+}
+
+// Drag against an atmosphere co-rotating with the body about the z axis:
+// a = -1/2 ρ (Cd A / m) |v_rel| v_rel. Position is relative to the body centre.
+export function dragAcceleration(
+  body: CentralBody,
+  spacecraft: BallisticProperties,
+  options: AtmosphereOptions
+): ForceModel {
+  const ballistic = spacecraft.dragCoefficient * spacecraft.dragArea / spacecraft.mass; // m²/kg
+  return ({ position, velocity }) => {
+    const density = atmosphericDensity(magnitude(position) - body.radius, options);
+    if (density === 0) return { x: 0, y: 0, z: 0 };
+
+    const relative = {
+      x: velocity.x + EARTH_ROTATION_RATE * position.y,
+      y: velocity.y - EARTH_ROTATION_RATE * position.x,
+      z: velocity.z
+    };
+    // ρ [kg/m³] · B [m²/kg] · v² [km²/s²] is 1e3 km/s² per unit, hence the factor
+    const k = -0.5 * density * ballistic * magnitude(relative) * 1000;
+    return { x: k * relative.x, y: k * relative.y, z: k * relative.z };
+  };
+}
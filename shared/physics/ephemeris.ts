@@ -0,0 +1,131 @@
+// Moon ephemeris: low-precision analytic lunar theory and a circular teaching model,
+// plus a low-precision solar ephemeris
+// Positions are geocentric, equatorial (x to the vernal equinox, z to the pole), in km.
+// Every function takes an epoch as a Julian Date in TT.
+
+import { Position3D } from "./orbitalMechanics";
+import { StateVector } from "./propagator";
+import { J2000_JD, SECONDS_PER_DAY } from "./time";
+
+export type MoonEphemerisMode = 'meeus' | 'circular';
+
+export interface CircularMoonOptions {
+  radius: number;       // Orbit radius (km)
+  period: number;       // Sidereal period (s)
+  inclination: number;  // Tilt relative to the equator (radians)
+  phase: number;        // Argument of latitude at J2000 (radians)
+}
+
+export const MEAN_MOON_DISTANCE = 384400; // km
+export const ASTRONOMICAL_UNIT = 149597870.7; // km
+
+const DEG = Math.PI / 180;
+const ARCSEC = DEG / 3600;
+const OBLIQUITY_J2000 = 23.43929111 * DEG;
+
+export const DEFAULT_CIRCULAR_MOON: CircularMoonOptions = {
+  radius: MEAN_MOON_DISTANCE,
+  period: 27.321661 * SECONDS_PER_DAY,
+  inclination: 5.145 * DEG,
+  phase: 0
+};
+
+function frac(x: number): number {
+  return x - Math.floor(x);
+}
+
+// Low-precision lunar theory (Meeus ch. 47 / Montenbruck's MiniMoon),
+// keeping the largest periodic terms: ~0.1° in longitude and ~50 km in distance
+export function moonPositionMeeus(jd: number): Position3D {
+  const T = (jd - J2000_JD) / 36525;
+
+  // Fundamental arguments
+  const L0 = frac(0.606433 + 1336.855225 * T);               // Mean longitude (rev)
+  const l = 2 * Math.PI * frac(0.374897 + 1325.552410 * T);  // Moon mean anomaly
+  const ls = 2 * Math.PI * frac(0.993133 + 99.997361 * T);   // Sun mean anomaly
+  const D = 2 * Math.PI * frac(0.827361 + 1236.853086 * T);  // Mean elongation
+  const F = 2 * Math.PI * frac(0.259086 + 1342.227825 * T);  // Argument of latitude
+
+  // Perturbations in longitude (arcsec)
+  const dL = 22640 * Math.sin(l) - 4586 * Math.sin(l - 2 * D) + 2370 * Math.sin(2 * D)
+    + 769 * Math.sin(2 * l) - 668 * Math.sin(ls) - 412 * Math.sin(2 * F)
+    - 212 * Math.sin(2 * l - 2 * D) - 206 * Math.sin(l + ls - 2 * D) + 192 * Math.sin(l + 2 * D)
+    - 165 * Math.sin(ls - 2 * D) - 125 * Math.sin(D) - 110 * Math.sin(l + ls)
+    + 148 * Math.sin(l - ls) - 55 * Math.sin(2 * F - 2 * D);
+
+  // Perturbations in latitude
+  const S = F + (dL + 412 * Math.sin(2 * F) + 541 * Math.sin(ls)) * ARCSEC;
+  const h = F - 2 * D;
+  const N = -526 * Math.sin(h) + 44 * Math.sin(l + h) - 31 * Math.sin(-l + h) - 23 * Math.sin(ls + h)
+    + 11 * Math.sin(-ls + h) - 25 * Math.sin(-2 * l + F) + 21 * Math.sin(-l + F);
+
+  // Distance (km), largest terms of Meeus table 47.A
+  const distance = 385000.56 - 20905.355 * Math.cos(l) - 3699.111 * Math.cos(2 * D - l)
+    - 2955.968 * Math.cos(2 * D) - 569.925 * Math.cos(2 * l) + 48.888 * Math.cos(ls)
+    - 3.149 * Math.cos(2 * F) + 246.158 * Math.cos(2 * D - 2 * l) - 152.138 * Math.cos(2 * D - ls - l)
+    - 170.733 * Math.cos(2 * D + l) - 204.586 * Math.cos(2 * D - ls) - 129.620 * Math.cos(ls - l)
+    + 108.743 * Math.cos(D) + 104.755 * Math.cos(ls + l);
+
+  const longitude = 2 * Math.PI * frac(L0 + dL / 1296000);
+  const latitude = (18520 * Math.sin(S) + N) * ARCSEC;
+
+  // Ecliptic -> equatorial
+  const xe = distance * Math.cos(latitude) * Math.cos(longitude);
+  const ye = distance * Math.cos(latitude) * Math.sin(longitude);
+  const ze = distance * Math.sin(latitude);
+  const cosE = Math.cos(OBLIQUITY_J2000);
+  const sinE = Math.sin(OBLIQUITY_J2000);
+
+  return {
+    x: xe,
+    y: ye * cosE - ze * sinE,
+    z: ye * sinE + ze * cosE
+  };
+}
+
+// Circular, inclined Moon orbit with the node on the x axis
+export function moonPositionCircular(jd: number, options: CircularMoonOptions = DEFAULT_CIRCULAR_MOON): Position3D {
+  const seconds = (jd - J2000_JD) * SECONDS_PER_DAY;
+  const u = options.phase + 2 * Math.PI * seconds / options.period;
+  return {
+    x: options.radius * Math.cos(u),
+    y: options.radius * Math.sin(u) * Math.cos(options.inclination),
+    z: options.radius * Math.sin(u) * Math.sin(options.inclination)
+  };
+}
+
+export function moonPosition(jd: number, mode: MoonEphemerisMode): Position3D {
+  return mode === 'meeus' ? moonPositionMeeus(jd) : moonPositionCircular(jd);
+}
+
+// Moon position and velocity (km, km/s); velocity by central difference
+export function moonState(jd: number, mode: MoonEphemerisMode): StateVector {
+  const h = 60; // s
+  const before = moonPosition(jd - h / SECONDS_PER_DAY, mode);
+  const after = moonPosition(jd + h / SECONDS_PER_DAY, mode);
+  return {
+    position: moonPosition(jd, mode),
+    velocity: {
+      x: (after.x - before.x) / (2 * h),
+      y: (after.y - before.y) / (2 * h),
+      z: (after.z - before.z) / (2 * h)
+    }
+  };
+}
+
+// Geocentric Sun position (Astronomical Almanac low-precision formulae,
+// ~0.01° over 1950-2050)
+export function sunPosition(jd: number): Position3D {
+  const n = jd - J2000_JD;
+  const L = (280.460 + 0.9856474 * n) * DEG;  // Mean longitude
+  const g = (357.528 + 0.9856003 * n) * DEG;  // Mean anomaly
+  const longitude = L + (1.915 * Math.sin(g) + 0.020 * Math.sin(2 * g)) * DEG;
+  const distance = (1.00014 - 0.01671 * Math.cos(g) - 0.00014 * Math.cos(2 * g)) * ASTRONOMICAL_UNIT;
+  const obliquity = (23.439 - 0.0000004 * n) * DEG;
+
+  return {
+    x: distance * Math.cos(longitude),
+    y: distance * Math.cos(obliquity) * Math.sin(longitude),
+    z: distance * Math.sin(obliquity) * Math.sin(longitude)
+  };
+}
@@ -0,0 +1,234 @@
+// Trajectory event detection
+//
+// Every event is the zero crossing of a switching function g along the
+// trajectory: radial velocity for apsides, z for nodes, distance for
+// altitudes and the SOI boundary, limb separation for shadows. A step
+// brackets a crossing when g changes sign between its two ends; the crossing
+// is then located by root finding on states re-propagated inside the step,
+// so each event is reported once, at its own time, whatever the step size.
+
+import { EARTH_RADIUS, MOON_RADIUS, MU_EARTH, MU_MOON, Position3D, Velocity3D } from "./orbitalMechanics";
+import { StateVector } from "./propagator";
+import { BodyId, laplaceSoiRadius } from "./sphereOfInfluence";
+import { shadowMargin } from "./solarRadiation";
+import { addVectors, dot, magnitude, subtractVectors } from "./vectorMath";
+import { classifyTouchdown, surfaceSpeed } from "./touchdown";
+
+export type EventKind =
+  | 'periapsis'
+  | 'apoapsis'
+  | 'ascendingNode'
+  | 'descendingNode'
+  | 'soiEntry'
+  | 'soiExit'
+  | 'eclipseEntry'
+  | 'eclipseExit'
+  | 'altitude'
+  | 'impact';
+
+// Spacecraft state at one instant, with the bodies the switching functions need
+export interface TrajectorySample {
+  time: number;            // Mission elapsed time (s)
+  primary: BodyId;
+  position: Position3D;    // Relative to the primary (km)
+  velocity: Velocity3D;    // km/s
+  moon: StateVector;       // Earth-centred
+  sun: Position3D;         // Earth-centred
+}
+
+// 1 = g rising through zero, -1 = falling, 0 = either way
+export type CrossingDirection = 1 | -1 | 0;
+
+export interface EventDetector {
+  kind: EventKind;
+  g: (sample: TrajectorySample) => number;
+  direction: CrossingDirection;
+  // 'primary' functions use the primary-relative state and jump when the
+  // primary changes, so steps across an SOI boundary are skipped for them
+  frame: 'primary' | 'earth';
+  body?: BodyId;           // Only while orbiting this body
+  terminal?: boolean;      // The event ends the mission
+  describe: (sample: TrajectorySample, rising: boolean) => string;
+}
+
+export interface DetectedEvent<S extends TrajectorySample = TrajectorySample> {
+  detector: EventDetector;
+  rising: boolean;
+  sample: S;               // State just past the crossing
+}
+
+export const EVENT_TIME_TOLERANCE = 1e-3; // s
+const MAX_ROOT_ITERATIONS = 60;
+
+function bodyRadius(body: BodyId): number {
+  return body === 'moon' ? MOON_RADIUS : EARTH_RADIUS;
+}
+
+function bodyName(body: BodyId): string {
+  return body === 'moon' ? 'Moon' : 'Earth';
+}
+
+function earthCentredPosition(sample: TrajectorySample): Position3D {
+  return sample.primary === 'moon' ? addVectors(sample.position, sample.moon.position) : sample.position;
+}
+
+function altitudeOf(sample: TrajectorySample): number {
+  return magnitude(sample.position) - bodyRadius(sample.primary);
+}
+
+// Radial velocity r·v vanishes at the apsides: rising at periapsis, falling at apoapsis
+export function apsisDetectors(): EventDetector[] {
+  const g = ({ position, velocity }: TrajectorySample) => dot(position, velocity);
+  return [
+    {
+      kind: 'periapsis', g, direction: 1, frame: 'primary',
+      describe: (sample) => `Periapsis: ${altitudeOf(sample).toFixed(1)} km above the ${bodyName(sample.primary)}`
+    },
+    {
+      kind: 'apoapsis', g, direction: -1, frame: 'primary',
+      describe: (sample) => `Apoapsis: ${altitudeOf(sample).toFixed(1)} km above the ${bodyName(sample.primary)}`
+    }
+  ];
+}
+
+// Equator crossings: z is the pole of the inertial frame
+export function nodeDetectors(): EventDetector[] {
+  const g = ({ position }: TrajectorySample) => position.z;
+  return [
+    { kind: 'ascendingNode', g, direction: 1, frame: 'primary', describe: () => 'Ascending node' },
+    { kind: 'descendingNode', g, direction: -1, frame: 'primary', describe: () => 'Descending node' }
+  ];
+}
+
+// Distance to the Moon less its SOI radius at the current Earth-Moon distance
+export function soiDetectors(): EventDetector[] {
+  const g = (sample: TrajectorySample) => {
+    const moonDistance = magnitude(sample.moon.position);
+    const toMoon = magnitude(subtractVectors(earthCentredPosition(sample), sample.moon.position));
+    return toMoon - laplaceSoiRadius(moonDistance, MU_MOON, MU_EARTH);
+  };
+  return [
+    { kind: 'soiEntry', g, direction: -1, frame: 'earth', describe: () => 'Entered Moon\'s sphere of influence!' },
+    { kind: 'soiExit', g, direction: 1, frame: 'earth', describe: () => 'Left Moon\'s sphere of influence' }
+  ];
+}
+
+// Penumbra boundary of the Earth's or the Moon's shadow
+export function eclipseDetectors(occulter: BodyId): EventDetector[] {
+  const g = (sample: TrajectorySample) => {
+    const centre = occulter === 'moon' ? sample.moon.position : { x: 0, y: 0, z: 0 };
+    return shadowMargin(
+      subtractVectors(earthCentredPosition(sample), centre),
+      subtractVectors(sample.sun, centre),
+      bodyRadius(occulter)
+    );
+  };
+  const name = bodyName(occulter);
+  return [
+    { kind: 'eclipseEntry', g, direction: -1, frame: 'earth', describe: () => `Entered ${name}'s shadow` },
+    { kind: 'eclipseExit', g, direction: 1, frame: 'earth', describe: () => `Left ${name}'s shadow` }
+  ];
+}
+
+// Passing an altitude above the given body, by default in either direction
+export function altitudeDetector(
+  body: BodyId,
+  altitude: number,
+  options: { direction?: CrossingDirection; terminal?: boolean; describe?: EventDetector['describe'] } = {}
+): EventDetector {
+  return {
+    kind: 'altitude',
+    g: (sample) => altitudeOf(sample) - altitude,
+    direction: options.direction ?? 0,
+    frame: 'primary',
+    body,
+    terminal: options.terminal,
+    describe: options.describe ?? ((_, rising) => `${rising ? 'Climbed above' : 'Descended below'} ${altitude} km above the ${bodyName(body)}`)
+  };
+}
+
+// Reaching the surface of a body of the given radius ends the mission,
+// described by how hard the touchdown was
+export function impactDetector(body: BodyId, radius: number = bodyRadius(body)): EventDetector {
+  return {
+    kind: 'impact',
+    g: (sample) => magnitude(sample.position) - radius,
+    direction: -1,
+    frame: 'primary',
+    body,
+    terminal: true,
+    describe: ({ position, velocity }) => {
+      const speed = surfaceSpeed(position, velocity, body);
+      const name = bodyName(body);
+      const metres = (speed * 1000).toFixed(1);
+      switch (classifyTouchdown(speed)) {
+        case 'landed': return `Landed on the ${name} at ${metres} m/s`;
+        case 'hardLanding': return `Hard landing on the ${name} at ${metres} m/s`;
+        case 'crash': return `Crashed into the ${name} at ${metres} m/s`;
+      }
+    }
+  };
+}
+
+// Illinois variant of regula falsi: keeps the bracket like bisection but
+// converges superlinearly. g(a) and g(b) have opposite signs; returns the
+// bracket end on b's side once the bracket is narrower than the tolerance.
+export function findCrossing(
+  g: (time: number) => number,
+  a: number,
+  b: number,
+  ga: number,
+  gb: number,
+  tolerance: number = EVENT_TIME_TOLERANCE
+): number {
+  let side = 0;
+  for (let i = 0; i < MAX_ROOT_ITERATIONS && Math.abs(b - a) > tolerance; i++) {
+    let c = (a * gb - b * ga) / (gb - ga);
+    // Fall back to bisection when the secant lands on (or outside) the bracket
+    if (!(c > Math.min(a, b) && c < Math.max(a, b))) c = (a + b) / 2;
+    const gc = g(c);
+    if ((gc >= 0) === (gb >= 0)) {
+      b = c;
+      gb = gc;
+      if (side === -1) ga /= 2;
+      side = -1;
+    } else {
+      a = c;
+      ga = gc;
+      if (side === 1) gb /= 2;
+      side = 1;
+    }
+  }
+  return b;
+}
+
+// Events between two samples of one step, in time order. sampleAt
+// re-propagates from the start of the step to any time inside it.
+export function detectEvents<S extends TrajectorySample>(
+  detectors: EventDetector[],
+  start: S,
+  end: S,
+  sampleAt: (time: number) => S,
+  tolerance: number = EVENT_TIME_TOLERANCE
+): DetectedEvent<S>[] {
+  const events: DetectedEvent<S>[] = [];
+  const samePrimary = start.primary === end.primary;
+
+  for (const detector of detectors) {
+    if (detector.frame === 'primary' && !samePrimary) continue;
+    if (detector.body && (start.primary !== detector.body || end.primary !== detector.body)) continue;
+
+    const g0 = detector.g(start);
+    const g1 = detector.g(end);
+    // Zero counts as positive so a crossing that lands exactly on a step
+    // boundary is reported by one step only
+    if ((g0 >= 0) === (g1 >= 0)) continue;
+    const rising = g1 >= 0;
+    if (detector.direction !== 0 && rising !== (detector.direction === 1)) continue;
+
+    const time = findCrossing((t) => detector.g(sampleAt(t)), start.time, end.time, g0, g1, tolerance);
+    events.push({ detector, rising, sample: time === end.time ? end : sampleAt(time) });
+  }
+
+  return events.sort((a, b) => a.sample.time - b.sample.time);
+}
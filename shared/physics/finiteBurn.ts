@@ -0,0 +1,59 @@
+// Finite burns: engine thrust applied as a force during propagation, with the
+// mass falling at ṁ = F / (Isp g0) for as long as the engine runs
+//
+// Thrust and mass flow are constant, so the mass is a linear function of time
+// and the thrust acceleration can be evaluated at any integrator stage
+// without carrying mass in the state vector.
+
+import { Position3D } from "./orbitalMechanics";
+import { ForceModel } from "./propagator";
+import { BurnFrame, burnBasis, toInertial } from "./frames";
+import { STANDARD_GRAVITY, calculateDeltaV, calculateFuelConsumption } from "./spacecraft";
+import { MetersPerSecond, Seconds, kilograms } from "./units";
+import { normalize, scaleVector } from "./vectorMath";
+
+export interface FiniteBurn {
+  direction: Position3D;         // Thrust direction, components in the frame below
+  frame: BurnFrame | 'inertial'; // Local frames follow the spacecraft through the burn
+  thrust: number;                // N
+  massFlow: number;              // kg/s
+  specificImpulse: Seconds;
+  startTime: number;             // Mission elapsed time (s)
+  endTime: number;
+  startMass: number;             // kg at startTime
+  label: string;
+}
+
+// ṁ = F / (Isp g0), kg/s
+export function massFlowRate(thrust: number, specificImpulse: Seconds): number {
+  return thrust / (specificImpulse * STANDARD_GRAVITY);
+}
+
+// Engine time to deliver deltaV from the given mass, cut short if the fuel
+// runs out first
+export function burnDuration(deltaV: MetersPerSecond, mass: number, fuel: number, thrust: number, specificImpulse: Seconds): number {
+  const propellant = Math.min(fuel, calculateFuelConsumption(deltaV, kilograms(mass), specificImpulse));
+  return propellant / massFlowRate(thrust, specificImpulse);
+}
+
+// Spacecraft mass part-way through the burn
+export function burnMassAt(burn: FiniteBurn, time: number): number {
+  const elapsed = Math.min(Math.max(time, burn.startTime), burn.endTime) - burn.startTime;
+  return burn.startMass - burn.massFlow * elapsed;
+}
+
+// Δv delivered so far (m/s), from the mass burned
+export function burnDeltaV(burn: FiniteBurn, time: number): MetersPerSecond {
+  return calculateDeltaV(kilograms(burn.startMass), kilograms(burnMassAt(burn, time)), burn.specificImpulse);
+}
+
+// Thrust acceleration F / m(t) (km/s²) while the engine runs
+export function thrustForce(burn: FiniteBurn): ForceModel {
+  const direction = normalize(burn.direction);
+  return (state, time) => {
+    if (time < burn.startTime || time > burn.endTime) return { x: 0, y: 0, z: 0 };
+    const acceleration = burn.thrust / burnMassAt(burn, time) / 1000;
+    const inertial = burn.frame === 'inertial' ? direction : toInertial(direction, burnBasis(burn.frame, state));
+    return scaleVector(inertial, acceleration);
+  };
+}
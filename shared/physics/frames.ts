@@ -0,0 +1,119 @@
+// Local orbital frames and rotations to and from the inertial frame
+//
+// RTN: R along the position vector, N along the orbit normal (r × v),
+// T = N × R completing the right-handed set (along-track).
+// Line of sight: X toward a point (a target body, the Sun), Z the orbit
+// normal made perpendicular to it, Y = Z × X.
+
+import { Position3D } from "./orbitalMechanics";
+import { StateVector } from "./propagator";
+import { cross, dot, magnitude, normalize, scaleVector, subtractVectors } from "./vectorMath";
+
+export interface FrameBasis {
+  x: Position3D;
+  y: Position3D;
+  z: Position3D;
+}
+
+// Unit vectors (e_R, e_T, e_N) expressed in inertial coordinates
+export function rtnBasis({ position, velocity }: StateVector): FrameBasis {
+  const r = normalize(position);
+  const n = normalize(cross(position, velocity));
+  return { x: r, y: cross(n, r), z: n };
+}
+
+// Components in a local basis -> inertial vector
+export function toInertial(vector: Position3D, basis: FrameBasis): Position3D {
+  return {
+    x: vector.x * basis.x.x + vector.y * basis.y.x + vector.z * basis.z.x,
+    y: vector.x * basis.x.y + vector.y * basis.y.y + vector.z * basis.z.y,
+    z: vector.x * basis.x.z + vector.y * basis.y.z + vector.z * basis.z.z
+  };
+}
+
+// Inertial vector -> components in a local basis
+export function fromInertial(vector: Position3D, basis: FrameBasis): Position3D {
+  return { x: dot(vector, basis.x), y: dot(vector, basis.y), z: dot(vector, basis.z) };
+}
+
+// RTN components (x = R, y = T, z = N) -> inertial
+export function rtnToInertial(vector: Position3D, state: StateVector): Position3D {
+  return toInertial(vector, rtnBasis(state));
+}
+
+export function inertialToRtn(vector: Position3D, state: StateVector): Position3D {
+  return fromInertial(vector, rtnBasis(state));
+}
+
+// VNB: V along the velocity (prograde), N along the orbit normal, B = V × N
+// (radial-out for a circular orbit)
+export function vnbBasis({ position, velocity }: StateVector): FrameBasis {
+  const v = normalize(velocity);
+  const n = normalize(cross(position, velocity));
+  return { x: v, y: n, z: cross(v, n) };
+}
+
+// Local frame a burn's components are given in
+export type BurnFrame = 'rtn' | 'vnb';
+
+export function burnBasis(frame: BurnFrame, state: StateVector): FrameBasis {
+  return frame === 'vnb' ? vnbBasis(state) : rtnBasis(state);
+}
+
+// Unit vectors toward the point and around that line, relative to the same
+// origin as the state. Falls back to the pole when the orbit normal lies
+// along the line of sight.
+export function lineOfSightBasis({ position, velocity }: StateVector, point: Position3D): FrameBasis {
+  const x = normalize(subtractVectors(point, position));
+  const normal = normalize(cross(position, velocity));
+  const perpendicular = subtractVectors(normal, scaleVector(x, dot(normal, x)));
+  const fallback = { x: 0, y: 0, z: 1 };
+  const z = magnitude(perpendicular) > 1e-9
+    ? normalize(perpendicular)
+    : normalize(subtractVectors(fallback, scaleVector(x, dot(fallback, x))));
+  return { x, y: cross(z, x), z };
+}
+
+// Everything a burn direction can be resolved against: the orbit frames,
+// the line of sight to the target body, or to the Sun
+export type BurnReference = BurnFrame | 'target' | 'sun';
+
+// Target and Sun positions relative to the state's origin (km)
+export interface ReferencePoints {
+  target: Position3D;
+  sun: Position3D;
+}
+
+export function referenceBasis(reference: BurnReference, state: StateVector, points: ReferencePoints): FrameBasis {
+  if (reference === 'target') return lineOfSightBasis(state, points.target);
+  if (reference === 'sun') return lineOfSightBasis(state, points.sun);
+  return burnBasis(reference, state);
+}
+
+// Forward / normal / radial amounts of a burn, the way the controls and
+// planners name them
+export interface BurnAmounts {
+  prograde: number;  // Along the velocity, or toward the target / Sun
+  normal: number;    // Along the orbit normal
+  radial: number;    // Outward, or across the line of sight
+}
+
+// Amounts as components of the reference's basis
+export function referenceComponents(reference: BurnReference, { prograde, normal, radial }: BurnAmounts): Position3D {
+  switch (reference) {
+    case 'rtn': return { x: radial, y: prograde, z: normal };
+    case 'vnb': return { x: prograde, y: normal, z: radial };
+    case 'target':
+    case 'sun': return { x: prograde, y: radial, z: normal };
+  }
+}
+
+// Inverse of referenceComponents
+export function referenceAmounts(reference: BurnReference, { x, y, z }: Position3D): BurnAmounts {
+  switch (reference) {
+    case 'rtn': return { prograde: y, normal: z, radial: x };
+    case 'vnb': return { prograde: x, normal: y, radial: z };
+    case 'target':
+    case 'sun': return { prograde: x, normal: z, radial: y };
+  }
+}
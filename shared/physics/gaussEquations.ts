@@ -0,0 +1,59 @@
+// Gauss's variational (planetary) equations: how a perturbing acceleration
+// changes the classical orbital elements
+
+import { OrbitalElements, Position3D } from "./orbitalMechanics";
+
+// Time derivatives of the classical elements (per second; angles in rad/s,
+// semi-major axis in km/s). Elements that are undefined for the current
+// orbit (ω and M for circular, Ω for equatorial) are NaN.
+export interface ElementRates {
+  semiMajorAxis: number;
+  eccentricity: number;
+  inclination: number;
+  longitudeOfAscendingNode: number;
+  argumentOfPeriapsis: number;
+  meanAnomaly: number;  // Includes the mean motion n
+}
+
+const SINGULAR_TOLERANCE = 1e-8;
+
+// Element rates from a perturbing acceleration (km/s²) given in RTN
+// components: x = F_R (radial), y = F_T (along-track), z = F_N (normal)
+export function gaussVariationalRates(elements: OrbitalElements, mu: number, rtnAcceleration: Position3D): ElementRates {
+  const { semiMajorAxis: a, eccentricity: e, inclination: i, argumentOfPeriapsis: omega, trueAnomaly: nu } = elements;
+  const { x: fR, y: fT, z: fN } = rtnAcceleration;
+
+  const p = elements.semiLatusRectum ?? a * (1 - e * e);
+  const h = Math.sqrt(mu * p);
+  const r = p / (1 + e * Math.cos(nu));
+  const u = omega + nu;
+  const sinNu = Math.sin(nu);
+  const cosNu = Math.cos(nu);
+  const sinI = Math.sin(i);
+
+  const circular = e < SINGULAR_TOLERANCE;
+  const equatorial = Math.abs(sinI) < SINGULAR_TOLERANCE;
+
+  const nodalRate = equatorial ? NaN : r * Math.sin(u) / (h * sinI) * fN;
+  // For equatorial orbits ω is measured from the x axis and only the in-plane terms apply
+  const apsidalRate = circular
+    ? NaN
+    : (-p * cosNu * fR + (p + r) * sinNu * fT) / (h * e) - (equatorial ? 0 : r * Math.sin(u) * Math.cos(i) / (h * sinI) * fN);
+
+  // Mean anomaly only for closed orbits, where b = a √(1 - e²)
+  let meanAnomalyRate = NaN;
+  if (!circular && e < 1) {
+    const n = Math.sqrt(mu / a ** 3);
+    const b = a * Math.sqrt(1 - e * e);
+    meanAnomalyRate = n + b / (a * h * e) * ((p * cosNu - 2 * r * e) * fR - (p + r) * sinNu * fT);
+  }
+
+  return {
+    semiMajorAxis: 2 * a * a / h * (e * sinNu * fR + p / r * fT),
+    eccentricity: (p * sinNu * fR + ((p + r) * cosNu + r * e) * fT) / h,
+    inclination: r * Math.cos(u) / h * fN,
+    longitudeOfAscendingNode: nodalRate,
+    argumentOfPeriapsis: apsidalRate,
+    meanAnomaly: meanAnomalyRate
+  };
+}
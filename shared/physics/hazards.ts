@@ -0,0 +1,271 @@
+import { Position3D } from "./orbitalMechanics";
+import { ForceModel } from "./propagator";
+import { rtnToInertial } from "./frames";
+import { Random } from "./random";
+
+export interface Hazard {
+  id: string;
+  type: 'radiation' | 'debris' | 'perturbation';
+  position: Position3D;
+  velocity?: Position3D;
+  radius: number;
+  intensity: number;
+  duration: number;
+  timeRemaining: number;
+}
+
+export interface RadiationStorm extends Hazard {
+  type: 'radiation';
+  kpIndex: number; // Geomagnetic activity index
+}
+
+export interface OrbitalDebris extends Hazard {
+  type: 'debris';
+  velocity: Position3D;
+  mass: number;
+}
+
+export type PerturbationSource = 'thrusterLeak' | 'outgassing' | 'solarWind';
+
+// Acts on the spacecraft itself wherever it is, for as long as it lasts
+export interface Perturbation extends Hazard {
+  type: 'perturbation';
+  source: PerturbationSource;
+  force: Position3D; // Force in RTN frame (N): x = radial, y = along-track, z = normal
+}
+
+// Force range (N) and duration range (s) of each perturbation source,
+// exaggerated so the effect shows up within a play session
+const PERTURBATION_SOURCES: Record<PerturbationSource, { label: string; force: [number, number]; duration: [number, number] }> = {
+  thrusterLeak: { label: 'Thruster leak', force: [0.5, 5], duration: [120, 600] },
+  outgassing: { label: 'Outgassing', force: [0.05, 0.5], duration: [600, 1800] },
+  solarWind: { label: 'Solar wind gust', force: [0.01, 0.1], duration: [60, 300] }
+};
+
+export const PERTURBATION_RATE = 1 / 900; // Mean spawn rate (per second of mission time)
+
+function randomBetween([min, max]: [number, number], random: Random): number {
+  return min + random() * (max - min);
+}
+
+function randomUnitVector(random: Random): Position3D {
+  const z = 2 * random() - 1;
+  const phi = 2 * Math.PI * random();
+  const s = Math.sqrt(1 - z * z);
+  return { x: s * Math.cos(phi), y: s * Math.sin(phi), z };
+}
+
+export function perturbationLabel(source: PerturbationSource): string {
+  return PERTURBATION_SOURCES[source].label;
+}
+
+// A new perturbation: a stuck thruster pushes along one RTN axis, outgassing
+// in any direction, and a solar wind gust mostly radially
+export function createPerturbation(gameTime: number, source?: PerturbationSource, random: Random = Math.random): Perturbation {
+  const sources = Object.keys(PERTURBATION_SOURCES) as PerturbationSource[];
+  const kind = source ?? sources[Math.floor(random() * sources.length)];
+  const { force: forceRange, duration: durationRange } = PERTURBATION_SOURCES[kind];
+  const magnitude = randomBetween(forceRange, random);
+  const sign = random() < 0.5 ? -1 : 1;
+
+  let direction: Position3D;
+  if (kind === 'thrusterLeak') {
+    const axis = Math.floor(random() * 3);
+    direction = { x: axis === 0 ? sign : 0, y: axis === 1 ? sign : 0, z: axis === 2 ? sign : 0 };
+  } else if (kind === 'solarWind') {
+    const spread = randomUnitVector(random);
+    direction = { x: sign + 0.2 * spread.x, y: 0.2 * spread.y, z: 0.2 * spread.z };
+  } else {
+    direction = randomUnitVector(random);
+  }
+
+  const duration = randomBetween(durationRange, random);
+  return {
+    id: `perturbation_${gameTime}_${kind}`,
+    type: 'perturbation',
+    source: kind,
+    position: { x: 0, y: 0, z: 0 },
+    radius: 0,
+    intensity: magnitude,
+    duration,
+    timeRemaining: duration,
+    force: { x: direction.x * magnitude, y: direction.y * magnitude, z: direction.z * magnitude }
+  };
+}
+
+// Poisson arrivals: a new perturbation during this step, or null
+export function spawnPerturbation(gameTime: number, deltaTime: number, random: Random = Math.random): Perturbation | null {
+  const probability = 1 - Math.exp(-PERTURBATION_RATE * deltaTime);
+  return random() < probability ? createPerturbation(gameTime, undefined, random) : null;
+}
+
+// Total RTN acceleration (km/s²) of the active perturbations on a spacecraft of the given mass
+export function perturbationAcceleration(hazards: Hazard[], mass: number): Position3D {
+  const total = { x: 0, y: 0, z: 0 };
+  for (const hazard of hazards) {
+    if (hazard.type !== 'perturbation') continue;
+    const { force } = hazard as Perturbation;
+    total.x += force.x / mass / 1000;
+    total.y += force.y / mass / 1000;
+    total.z += force.z / mass / 1000;
+  }
+  return total;
+}
+
+// The active perturbations as a force model, rotated from RTN at the current state
+export function perturbationForce(hazards: Hazard[], mass: number): ForceModel {
+  const acceleration = perturbationAcceleration(hazards, mass);
+  return (state) => rtnToInertial(acceleration, state);
+}
+
+// Generate random hazards (positions and radii in km, velocities in km/s)
+export function generateRandomHazards(count: number, gameTime: number, random: Random = Math.random): Hazard[] {
+  const hazards: Hazard[] = [];
+  
+  for (let i = 0; i < count; i++) {
+    const type = random() < 0.5 ? 'radiation' : 'debris';
+    const id = `${type}_${gameTime}_${i}`;
+    
+    if (type === 'radiation') {
+      hazards.push({
+        id,
+        type: 'radiation',
+        position: {
+          x: ((random() - 0.5) * 40 + (random() > 0.5 ? 20 : -20)) * 1000,
+          y: (random() - 0.5) * 40000,
+          z: (random() - 0.5) * 40000
+        },
+        radius: 1000 + random() * 3000,
+        intensity: random() * 100,
+        duration: 60 + random() * 300, // 1-6 minutes
+        timeRemaining: 60 + random() * 300,
+        kpIndex: 5 + random() * 4 // Kp 5-9
+      } as RadiationStorm);
+    } else {
+      hazards.push({
+        id,
+        type: 'debris',
+        position: {
+          x: ((random() - 0.5) * 30 + (random() > 0.5 ? 15 : -15)) * 1000,
+          y: (random() - 0.5) * 30000,
+          z: (random() - 0.5) * 30000
+        },
+        velocity: {
+          x: (random() - 0.5) * 10,
+          y: (random() - 0.5) * 10,
+          z: (random() - 0.5) * 10
+        },
+        radius: 500 + random() * 2000,
+        intensity: 1,
+        duration: Infinity,
+        timeRemaining: Infinity,
+        mass: 1 + random() * 100
+      } as OrbitalDebris);
+    }
+  }
+  
+  return hazards;
+}
+
+// Update hazards over time
+export function updateHazards(hazards: Hazard[], deltaTime: number): Hazard[] {
+  return hazards.map(hazard => {
+    // Update time remaining
+    const newTimeRemaining = hazard.timeRemaining - deltaTime;
+    
+    // Move debris
+    if (hazard.type === 'debris' && hazard.velocity) {
+      const newPosition = {
+        x: hazard.position.x + hazard.velocity.x * deltaTime,
+        y: hazard.position.y + hazard.velocity.y * deltaTime,
+        z: hazard.position.z + hazard.velocity.z * deltaTime
+      };
+      
+      return {
+        ...hazard,
+        position: newPosition,
+        timeRemaining: newTimeRemaining
+      };
+    }
+    
+    return {
+      ...hazard,
+      timeRemaining: newTimeRemaining
+    };
+  }).filter(hazard => hazard.timeRemaining > 0); // Remove expired hazards
+}
+
+// Check collision with spacecraft
+export function checkHazardCollision(spacecraftPosition: Position3D, hazards: Hazard[]): Hazard[] {
+  return hazards.filter(hazard => {
+    const distance = Math.sqrt(
+      (spacecraftPosition.x - hazard.position.x) ** 2 +
+      (spacecraftPosition.y - hazard.position.y) ** 2 +
+      (spacecraftPosition.z - hazard.position.z) ** 2
+    );
+    
+    return distance <= hazard.radius;
+  });
+}
+
+// Calculate radiation dose based on Van Allen belt formulas
+export function calculateRadiationDose(position: Position3D, hazards: Hazard[]): number {
+  let totalDose = 0;
+  
+  hazards.forEach(hazard => {
+    if (hazard.type === 'radiation') {
+      const distance = Math.sqrt(
+        (position.x - hazard.position.x) ** 2 +
+        (position.y - hazard.position.y) ** 2 +
+        (position.z - hazard.position.z) ** 2
+      );
+      
+      if (distance <= hazard.radius) {
+        // D = ∫Φ(E)S(E)dE (simplified)
+        const intensity = hazard.intensity;
+        const falloff = Math.max(0, 1 - distance / hazard.radius);
+        totalDose += intensity * falloff;
+      }
+    }
+  });
+  
+  return totalDose;
+}
+
+// Check if geomagnetic storm is active (Kp ≥ 7)
+export function isGeromagneticStormActive(hazards: Hazard[]): boolean {
+  return hazards.some(hazard => 
+    hazard.type === 'radiation' && 
+    (hazard as RadiationStorm).kpIndex >= 7
+  );
+}
+
+// Calculate collision probability (simplified)
+export function calculateCollisionProbability(spacecraftPosition: Position3D, spacecraftVelocity: Position3D, debris: OrbitalDebris): number {
+  // Simplified collision probability calculation
+  // In reality, this would involve complex statistical analysis
+  
+  const relativeVelocity = {
+    x: spacecraftVelocity.x - (debris.velocity?.x || 0),
+    y: spacecraftVelocity.y - (debris.velocity?.y || 0),
+    z: spacecraftVelocity.z - (debris.velocity?.z || 0)
+  };
+  
+  const relativeSpeed = Math.sqrt(
+    relativeVelocity.x ** 2 + 
+    relativeVelocity.y ** 2 + 
+    relativeVelocity.z ** 2
+  );
+  
+  const distance = Math.sqrt(
+    (spacecraftPosition.x - debris.position.x) ** 2 +
+    (spacecraftPosition.y - debris.position.y) ** 2 +
+    (spacecraftPosition.z - debris.position.z) ** 2
+  );
+  
+  // Higher probability for closer debris and higher relative speeds
+  const baseProbability = 1 / (1 + distance / 1000); // distance in thousands of km
+  const speedFactor = Math.min(1, relativeSpeed / 10);
+  
+  return baseProbability * speedFactor;
+}
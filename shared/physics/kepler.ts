@@ -0,0 +1,169 @@
+// Kepler problem solvers for elliptic, parabolic and hyperbolic orbits
+
+import { isParabolic, wrapAngle } from "./orbitalMechanics";
+import { StateVector } from "./propagator";
+import { dot, magnitude } from "./vectorMath";
+
+export interface KeplerSolverOptions {
+  tolerance?: number;      // Convergence tolerance on the anomaly / universal variable
+  maxIterations?: number;  // Newton-Raphson iteration cap
+}
+
+export interface UniversalKeplerSolution {
+  chi: number;          // Universal anomaly χ (√km for km-based μ)
+  iterations: number;
+  converged: boolean;
+}
+
+const DEFAULT_TOLERANCE = 1e-12;
+const DEFAULT_MAX_ITERATIONS = 50;
+const PARABOLIC_ALPHA = 1e-12;
+
+// Stumpff function C(z) = (1 - cos √z) / z, continued analytically for z ≤ 0
+export function stumpffC(z: number): number {
+  if (Math.abs(z) < 1e-6) return 1 / 2 - z / 24 + z * z / 720;
+  if (z > 0) return (1 - Math.cos(Math.sqrt(z))) / z;
+  return (Math.cosh(Math.sqrt(-z)) - 1) / -z;
+}
+
+// Stumpff function S(z) = (√z - sin √z) / √z³, continued analytically for z ≤ 0
+export function stumpffS(z: number): number {
+  if (Math.abs(z) < 1e-6) return 1 / 6 - z / 120 + z * z / 5040;
+  if (z > 0) {
+    const sz = Math.sqrt(z);
+    return (sz - Math.sin(sz)) / (sz ** 3);
+  }
+  const sz = Math.sqrt(-z);
+  return (Math.sinh(sz) - sz) / (sz ** 3);
+}
+
+// Solve the universal Kepler equation for χ after dt seconds
+// √μ Δt = r₀v_r₀/√μ χ² C(αχ²) + (1 - αr₀) χ³ S(αχ²) + r₀χ
+export function solveUniversalKepler(
+  r0: number,
+  vr0: number,
+  alpha: number,
+  mu: number,
+  dt: number,
+  options: KeplerSolverOptions = {}
+): UniversalKeplerSolution {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const sqrtMu = Math.sqrt(mu);
+
+  // Initial guess (Vallado): elliptic, hyperbolic, otherwise near-parabolic
+  let chi: number;
+  if (alpha > PARABOLIC_ALPHA) {
+    chi = sqrtMu * dt * alpha;
+  } else if (alpha < -PARABOLIC_ALPHA) {
+    const a = 1 / alpha;
+    const sign = Math.sign(dt);
+    const arg = (-2 * mu * alpha * dt) / (r0 * vr0 + sign * Math.sqrt(-mu * a) * (1 - r0 * alpha));
+    chi = arg > 0 ? sign * Math.sqrt(-a) * Math.log(arg) : sqrtMu * dt / r0;
+  } else {
+    chi = sqrtMu * dt / r0;
+  }
+
+  for (let i = 1; i <= maxIterations; i++) {
+    const chi2 = chi * chi;
+    const z = alpha * chi2;
+    const C = stumpffC(z);
+    const S = stumpffS(z);
+    const F = r0 * vr0 / sqrtMu * chi2 * C + (1 - alpha * r0) * chi2 * chi * S + r0 * chi - sqrtMu * dt;
+    // dF/dχ equals the radius at the solution, so it is always positive
+    const dF = r0 * vr0 / sqrtMu * chi * (1 - z * S) + (1 - alpha * r0) * chi2 * C + r0;
+    const step = F / dF;
+    chi -= step;
+    if (Math.abs(step) <= tolerance * Math.max(1, Math.abs(chi))) {
+      return { chi, iterations: i, converged: true };
+    }
+  }
+  return { chi, iterations: maxIterations, converged: false };
+}
+
+// Two-body propagation of a state vector by dt seconds using Lagrange f and g
+// coefficients in universal variables. Valid for every conic.
+export function propagateKepler(state: StateVector, mu: number, dt: number, options: KeplerSolverOptions = {}): StateVector {
+  if (dt === 0) return state;
+  const { position: r0v, velocity: v0v } = state;
+  const r0 = magnitude(r0v);
+  const v0 = magnitude(v0v);
+  const vr0 = dot(r0v, v0v) / r0;
+  const alpha = 2 / r0 - v0 ** 2 / mu; // Reciprocal of the semi-major axis
+
+  const { chi } = solveUniversalKepler(r0, vr0, alpha, mu, dt, options);
+  const chi2 = chi * chi;
+  const z = alpha * chi2;
+  const C = stumpffC(z);
+  const S = stumpffS(z);
+  const sqrtMu = Math.sqrt(mu);
+
+  const f = 1 - chi2 / r0 * C;
+  const g = dt - chi2 * chi / sqrtMu * S;
+  const position = {
+    x: f * r0v.x + g * v0v.x,
+    y: f * r0v.y + g * v0v.y,
+    z: f * r0v.z + g * v0v.z
+  };
+  const r = magnitude(position);
+
+  const fDot = sqrtMu / (r * r0) * (z * chi * S - chi);
+  const gDot = 1 - chi2 / r * C;
+  const velocity = {
+    x: fDot * r0v.x + gDot * v0v.x,
+    y: fDot * r0v.y + gDot * v0v.y,
+    z: fDot * r0v.z + gDot * v0v.z
+  };
+
+  return { position, velocity };
+}
+
+// Solve Kepler's equation for the eccentric (e < 1) or hyperbolic (e > 1)
+// anomaly with Newton-Raphson. For e = 1 this returns D = tan(ν/2) from
+// Barker's equation, which has a closed-form solution.
+export function solveKeplerEquation(M: number, e: number, options: KeplerSolverOptions = {}): number {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+
+  if (isParabolic(e)) {
+    // D + D³/3 = M
+    const W = 1.5 * M;
+    const y = Math.cbrt(W + Math.sqrt(W * W + 1));
+    return y - 1 / y;
+  }
+
+  if (e < 1) {
+    const Mw = wrapAngle(M);
+    // Starting at π is robust for high eccentricities
+    let E = e < 0.8 ? Mw + e * Math.sin(Mw) : Math.PI;
+    for (let i = 0; i < maxIterations; i++) {
+      const step = (E - e * Math.sin(E) - Mw) / (1 - e * Math.cos(E));
+      E -= step;
+      if (Math.abs(step) <= tolerance) break;
+    }
+    return E;
+  }
+
+  // M = e sinh H - H. For small |M| take the smaller of the linear and cubic
+  // approximations so near-parabolic orbits do not start far out on the sinh branch
+  const absM = Math.abs(M);
+  let H = Math.sign(M) * (absM < e
+    ? Math.min(absM / (e - 1), Math.cbrt(6 * absM / e))
+    : Math.log(2 * absM / e + 1.8));
+  for (let i = 0; i < maxIterations; i++) {
+    const step = (e * Math.sinh(H) - H - M) / (e * Math.cosh(H) - 1);
+    H -= step;
+    if (Math.abs(step) <= tolerance * Math.max(1, Math.abs(H))) break;
+  }
+  return H;
+}
+
+// True anomaly from mean anomaly for any conic
+export function meanToTrueAnomaly(M: number, e: number, options: KeplerSolverOptions = {}): number {
+  const anomaly = solveKeplerEquation(M, e, options);
+  if (isParabolic(e)) return wrapAngle(2 * Math.atan(anomaly));
+  if (e < 1) {
+    return wrapAngle(2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(anomaly / 2), Math.sqrt(1 - e) * Math.cos(anomaly / 2)));
+  }
+  return wrapAngle(2 * Math.atan(Math.sqrt((e + 1) / (e - 1)) * Math.tanh(anomaly / 2)));
+}
@@ -0,0 +1,235 @@
+// Lambert's problem: the conic arc joining two positions in a given time
+//
+// Izzo's algorithm (D. Izzo, "Revisiting Lambert's problem", Celest. Mech.
+// Dyn. Astr. 121, 2015). The time of flight is expressed through a single
+// variable x on the non-dimensional transfer-time curve T(x), which is solved
+// with Householder iterations from Izzo's initial guesses. With enough time
+// the arc can wrap around the primary M full times before arriving; every
+// M ≥ 1 has two solutions, the left (x < x_Tmin) and right branches.
+
+import { Position3D, Velocity3D } from "./orbitalMechanics";
+import { addVectors, cross, magnitude, normalize, scaleVector, subtractVectors } from "./vectorMath";
+
+export interface LambertSolution {
+  departureVelocity: Velocity3D;  // km/s at the first position
+  arrivalVelocity: Velocity3D;    // km/s at the second position
+  revolutions: number;            // Complete revolutions before arrival
+  branch: 'single' | 'left' | 'right';
+}
+
+export interface LambertOptions {
+  maxRevolutions?: number;   // Highest revolution count to solve for (default 0)
+  retrograde?: boolean;      // Travel clockwise about +z
+  tolerance?: number;        // Convergence tolerance on x
+  maxIterations?: number;
+}
+
+const DEFAULT_TOLERANCE = 1e-11;
+const DEFAULT_MAX_ITERATIONS = 35;
+const BATTIN_THRESHOLD = 0.01;    // |x - 1| below which T(x) uses Battin's series
+const LAGRANGE_THRESHOLD = 0.2;   // ... and below which Lagrange's expression
+
+// Hypergeometric ₂F₁(3, 1; 5/2; z) for Battin's near-parabolic series
+function hypergeometricF(z: number, tolerance: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let j = 0; Math.abs(term) > tolerance && j < 1000; j++) {
+    term *= (3 + j) * (1 + j) / (2.5 + j) * z / (j + 1);
+    sum += term;
+  }
+  return sum;
+}
+
+// Non-dimensional time of flight T(x) for M revolutions
+function timeOfFlight(x: number, lambda: number, revolutions: number): number {
+  const distance = Math.abs(x - 1);
+
+  // Lagrange's expression, well conditioned away from the parabola
+  if (distance < LAGRANGE_THRESHOLD && distance > BATTIN_THRESHOLD) {
+    const a = 1 / (1 - x * x);
+    if (a > 0) {
+      const alpha = 2 * Math.acos(x);
+      const beta = Math.sign(lambda || 1) * 2 * Math.asin(Math.sqrt(lambda * lambda / a));
+      return a * Math.sqrt(a) * ((alpha - Math.sin(alpha)) - (beta - Math.sin(beta)) + 2 * Math.PI * revolutions) / 2;
+    }
+    const alpha = 2 * Math.acosh(x);
+    const beta = Math.sign(lambda || 1) * 2 * Math.asinh(Math.sqrt(-lambda * lambda / a));
+    return -a * Math.sqrt(-a) * ((beta - Math.sinh(beta)) - (alpha - Math.sinh(alpha))) / 2;
+  }
+
+  const E = x * x - 1;
+  const rho = Math.abs(E);
+  const z = Math.sqrt(1 + lambda * lambda * E);
+
+  // Battin's series near x = 1 (parabolic)
+  if (distance < BATTIN_THRESHOLD) {
+    const eta = z - lambda * x;
+    const s1 = 0.5 * (1 - lambda - x * eta);
+    const q = 4 / 3 * hypergeometricF(s1, 1e-11);
+    return (eta ** 3 * q + 4 * lambda * eta) / 2 + revolutions * Math.PI / rho ** 1.5;
+  }
+
+  // Lancaster's expression elsewhere
+  const y = Math.sqrt(rho);
+  const g = x * z - lambda * E;
+  const d = E < 0
+    ? revolutions * Math.PI + Math.acos(g)
+    : Math.log(y * (z - lambda * x) + g);
+  return (x - lambda * z - d / y) / E;
+}
+
+// First three derivatives of T with respect to x
+function timeDerivatives(x: number, T: number, lambda: number): [number, number, number] {
+  const l2 = lambda * lambda;
+  const l3 = l2 * lambda;
+  const umx2 = 1 - x * x;
+  const y = Math.sqrt(1 - l2 * umx2);
+  const y2 = y * y;
+  const y3 = y2 * y;
+  const dT = (3 * T * x - 2 + 2 * l3 * x / y) / umx2;
+  const ddT = (3 * T + 5 * x * dT + 2 * (1 - l2) * l3 / y3) / umx2;
+  const dddT = (7 * x * ddT + 8 * dT - 6 * (1 - l2) * l2 * l3 * x / y3 / y2) / umx2;
+  return [dT, ddT, dddT];
+}
+
+// Householder (third order) iterations on T(x) = target
+function householder(
+  target: number,
+  x0: number,
+  lambda: number,
+  revolutions: number,
+  tolerance: number,
+  maxIterations: number
+): number | null {
+  let x = x0;
+  for (let i = 0; i < maxIterations; i++) {
+    const T = timeOfFlight(x, lambda, revolutions);
+    const [dT, ddT, dddT] = timeDerivatives(x, T, lambda);
+    const delta = T - target;
+    const dT2 = dT * dT;
+    const next = x - delta * (dT2 - delta * ddT / 2) / (dT * (dT2 - delta * ddT) + dddT * delta * delta / 6);
+    if (!Number.isFinite(next)) return null;
+    const step = Math.abs(next - x);
+    x = next;
+    if (step < tolerance) return x;
+  }
+  return null;
+}
+
+// Minimum time of flight for M revolutions: Halley iterations on dT/dx = 0
+function minimumTimeOfFlight(lambda: number, revolutions: number): number {
+  let x = 0;
+  let T = Math.acos(lambda) + lambda * Math.sqrt(1 - lambda * lambda) + revolutions * Math.PI;
+  for (let i = 0; i < 12; i++) {
+    const [dT, ddT, dddT] = timeDerivatives(x, T, lambda);
+    if (dT === 0) break;
+    const next = x - dT * ddT / (ddT * ddT - dT * dddT / 2);
+    const step = Math.abs(next - x);
+    x = next;
+    T = timeOfFlight(x, lambda, revolutions);
+    if (step < 1e-13) break;
+  }
+  return T;
+}
+
+// All (x, M) roots of the time-of-flight equation up to maxRevolutions
+function findRoots(
+  lambda: number,
+  T: number,
+  maxRevolutions: number,
+  tolerance: number,
+  maxIterations: number
+): { x: number; revolutions: number; branch: LambertSolution['branch'] }[] {
+  const T00 = Math.acos(lambda) + lambda * Math.sqrt(1 - lambda * lambda);
+  const T1 = 2 / 3 * (1 - lambda ** 3);
+
+  // Revolutions the time of flight can fit at all
+  let revolutions = Math.min(maxRevolutions, Math.floor(T / Math.PI));
+  if (revolutions > 0 && T < T00 + revolutions * Math.PI && T < minimumTimeOfFlight(lambda, revolutions)) {
+    revolutions--;
+  }
+
+  const roots: { x: number; revolutions: number; branch: LambertSolution['branch'] }[] = [];
+
+  // Single revolution: Izzo's initial guess on each part of the T(x) curve
+  const x0 = T >= T00
+    ? -(T - T00) / (T - T00 + 4)
+    : T <= T1
+      ? T1 * (T1 - T) / (2 / 5 * (1 - lambda ** 5) * T) + 1
+      : Math.pow(T / T00, Math.LN2 / Math.log(T1 / T00)) - 1;
+  const single = householder(T, x0, lambda, 0, tolerance, maxIterations);
+  if (single !== null) roots.push({ x: single, revolutions: 0, branch: 'single' });
+
+  for (let m = 1; m <= revolutions; m++) {
+    const left = Math.pow((m * Math.PI + Math.PI) / (8 * T), 2 / 3);
+    const right = Math.pow(8 * T / (m * Math.PI), 2 / 3);
+    const xLeft = householder(T, (left - 1) / (left + 1), lambda, m, tolerance, maxIterations);
+    const xRight = householder(T, (right - 1) / (right + 1), lambda, m, tolerance, maxIterations);
+    if (xLeft !== null) roots.push({ x: xLeft, revolutions: m, branch: 'left' });
+    if (xRight !== null) roots.push({ x: xRight, revolutions: m, branch: 'right' });
+  }
+  return roots;
+}
+
+// Every transfer from r1 to r2 taking timeOfFlight seconds, with up to
+// maxRevolutions complete revolutions. Empty when the geometry is degenerate
+// (positions collinear with the primary) or no arc fits.
+export function solveLambert(
+  r1: Position3D,
+  r2: Position3D,
+  timeOfFlightSeconds: number,
+  mu: number,
+  options: LambertOptions = {}
+): LambertSolution[] {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  if (!(timeOfFlightSeconds > 0)) return [];
+
+  const r1n = magnitude(r1);
+  const r2n = magnitude(r2);
+  const chord = magnitude(subtractVectors(r2, r1));
+  const s = (r1n + r2n + chord) / 2;
+  const ir1 = scaleVector(r1, 1 / r1n);
+  const ir2 = scaleVector(r2, 1 / r2n);
+  const normal = cross(ir1, ir2);
+  if (magnitude(normal) < 1e-12) return [];
+  const ih = normalize(normal);
+
+  // λ < 0 for transfer angles beyond 180° in the chosen direction of travel
+  let lambda = Math.sqrt(Math.max(0, 1 - chord / s));
+  let it1: Position3D;
+  let it2: Position3D;
+  if (ih.z < 0) {
+    lambda = -lambda;
+    it1 = cross(ir1, ih);
+    it2 = cross(ir2, ih);
+  } else {
+    it1 = cross(ih, ir1);
+    it2 = cross(ih, ir2);
+  }
+  if (options.retrograde) {
+    lambda = -lambda;
+    it1 = scaleVector(it1, -1);
+    it2 = scaleVector(it2, -1);
+  }
+
+  const T = Math.sqrt(2 * mu / s ** 3) * timeOfFlightSeconds;
+  const roots = findRoots(lambda, T, options.maxRevolutions ?? 0, tolerance, maxIterations);
+
+  // Radial and tangential velocity components from x and y
+  const gamma = Math.sqrt(mu * s / 2);
+  const rho = (r1n - r2n) / chord;
+  const sigma = Math.sqrt(Math.max(0, 1 - rho * rho));
+  return roots.map(({ x, revolutions, branch }) => {
+    const y = Math.sqrt(1 - lambda * lambda * (1 - x * x));
+    const vr1 = gamma * ((lambda * y - x) - rho * (lambda * y + x)) / r1n;
+    const vr2 = -gamma * ((lambda * y - x) + rho * (lambda * y + x)) / r2n;
+    const vt = gamma * sigma * (y + lambda * x);
+    return {
+      departureVelocity: addVectors(scaleVector(ir1, vr1), scaleVector(it1, vt / r1n)),
+      arrivalVelocity: addVectors(scaleVector(ir2, vr2), scaleVector(it2, vt / r2n)),
+      revolutions,
+      branch
+    };
+  });
+}
@@ -0,0 +1,67 @@
+// Maneuver nodes: planned impulsive burns at future times, and the orbits
+// they are predicted to leave the spacecraft on
+//
+// Predictions are two-body about the current primary: each node propagates
+// the orbit left by the node before it, so a chain of nodes reads as a
+// sequence of conics. Perturbations and SOI changes along the way are not
+// included, so long-range predictions drift from what the engine flies.
+
+import { CentralBody, OrbitalElements, Position3D, cartesianToOrbitalElements, trueToMeanAnomaly, wrapAngle } from "./orbitalMechanics";
+import { StateVector } from "./propagator";
+import { BurnFrame, burnBasis, toInertial } from "./frames";
+import { propagateKepler } from "./kepler";
+import { addVectors } from "./vectorMath";
+
+export interface ManeuverNode {
+  time: number;          // Mission elapsed time of the burn (s)
+  deltaV: Position3D;    // km/s, components in the node's frame
+  frame: BurnFrame;
+}
+
+export interface ManeuverPrediction {
+  before: StateVector;         // At the node, before the burn
+  after: StateVector;          // At the node, after the burn
+  elements: OrbitalElements;   // Orbit after the burn
+}
+
+// Time until the orbit next passes true anomaly nu. Null for open orbits
+// that will not reach it again.
+export function timeToTrueAnomaly(elements: OrbitalElements, nu: number, mu: number): number | null {
+  const { semiMajorAxis: a, eccentricity: e, trueAnomaly } = elements;
+  if (e >= 1) {
+    const nuMax = Math.acos(-1 / e);
+    const target = Math.atan2(Math.sin(nu), Math.cos(nu));
+    const current = Math.atan2(Math.sin(trueAnomaly), Math.cos(trueAnomaly));
+    if (Math.abs(target) >= nuMax || target < current) return null;
+    const n = Math.sqrt(mu / (-a) ** 3);
+    const time = (trueToMeanAnomaly(target, e).meanAnomaly - trueToMeanAnomaly(current, e).meanAnomaly) / n;
+    return Number.isFinite(time) ? time : null;
+  }
+  const n = Math.sqrt(mu / a ** 3);
+  const delta = trueToMeanAnomaly(nu, e).meanAnomaly - trueToMeanAnomaly(trueAnomaly, e).meanAnomaly;
+  return wrapAngle(delta) / n;
+}
+
+// State before and after each node's burn and the orbit it leaves, in time
+// order, starting from the state at mission time now
+export function predictManeuvers(
+  state: StateVector,
+  now: number,
+  nodes: ManeuverNode[],
+  body: CentralBody
+): ManeuverPrediction[] {
+  const predictions: ManeuverPrediction[] = [];
+  let current = { position: state.position, velocity: state.velocity };
+  let time = now;
+  for (const node of [...nodes].sort((a, b) => a.time - b.time)) {
+    const before = propagateKepler(current, body.mu, Math.max(0, node.time - time));
+    const after = {
+      position: before.position,
+      velocity: addVectors(before.velocity, toInertial(node.deltaV, burnBasis(node.frame, before)))
+    };
+    predictions.push({ before, after, elements: cartesianToOrbitalElements(after.position, after.velocity, body, node.time) });
+    current = after;
+    time = Math.max(time, node.time);
+  }
+  return predictions;
+}
@@ -0,0 +1,461 @@
+// Orbital mechanics calculations based on the provided formulas
+
+import { ForceModel, IntegratorType, PropagatorOptions, StateVector, centralGravity, propagate, thirdBodyGravity } from "./propagator";
+import { propagateKepler } from "./kepler";
+import { BodyId, resolvePrimary } from "./sphereOfInfluence";
+import { zonalHarmonicsGravity } from "./perturbations";
+import { AtmosphereOptions, dragAcceleration } from "./atmosphere";
+import { solarRadiationPressure } from "./solarRadiation";
+import { dot, magnitude, scaleVector, subtractVectors } from "./vectorMath";
+import { J2000_JD, epochAt } from "./time";
+import type { CelestialBody, Spacecraft } from "../simulationEngine";
+import { GravitationalParameter, Kilometers, KilometersPerSecond, gravitationalParameter, km, kmPerSecond } from "./units";
+
+export interface OrbitalElements {
+  semiMajorAxis: number;    // a - Size of the orbit (km)
+  eccentricity: number;     // e - Shape of orbit (0=circle, 0<e<1 ellipse)
+  inclination: number;      // i - Tilt of orbit wrt equator (radians)
+  longitudeOfAscendingNode: number;  // Ω - Where orbit crosses equator northward (radians)
+  argumentOfPeriapsis: number;       // ω - Orientation of closest approach (radians)
+  trueAnomaly: number;      // ν - Current position angle in orbit (radians)
+  meanAnomaly: number;      // M - Average position (radians)
+  altitude: number;         // Current altitude above surface (km)
+  epoch: number;            // Time stamp the elements are valid at (Julian Date, TT)
+  eccentricAnomaly?: number;   // E - Elliptic orbits only (radians)
+  hyperbolicAnomaly?: number;  // H - Hyperbolic orbits only, M = e sinh H - H (radians)
+  semiLatusRectum?: number;    // p = h²/μ - Finite for every conic, including parabolas
+  argumentOfLatitude?: number; // u = ω + ν - Defined for circular orbits (radians)
+  trueLongitude?: number;      // λ = Ω + ω + ν - Defined for circular equatorial orbits (radians)
+}
+
+export interface Position3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Velocity3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Minimal body description needed to express a state relative to it
+export interface CentralBody {
+  mu: number;      // Standard gravitational parameter (km³/s²)
+  radius: number;  // Mean radius, used for altitude (km)
+}
+
+// Standard gravitational parameters
+export const MU_EARTH = gravitationalParameter(398600.4418);
+export const MU_MOON = gravitationalParameter(4902.7779);
+export const MU_SUN = gravitationalParameter(1.32712440018e11);
+export const EARTH_RADIUS = km(6371);
+export const MOON_RADIUS = km(1737);
+export const SUN_RADIUS = km(695700);
+
+export const EARTH_BODY: CentralBody = { mu: MU_EARTH, radius: EARTH_RADIUS };
+
+// Below these thresholds an orbit is treated as circular / equatorial / parabolic
+const CIRCULAR_TOLERANCE = 1e-8;
+const EQUATORIAL_TOLERANCE = 1e-10;
+const PARABOLIC_TOLERANCE = 1e-8;
+
+const TWO_PI = 2 * Math.PI;
+
+// Wrap an angle to [0, 2π)
+export function wrapAngle(angle: number): number {
+  const wrapped = angle % TWO_PI;
+  return wrapped < 0 ? wrapped + TWO_PI : wrapped;
+}
+
+export function isParabolic(e: number): boolean {
+  return Math.abs(e - 1) < PARABOLIC_TOLERANCE;
+}
+
+function clampUnit(x: number): number {
+  return Math.max(-1, Math.min(1, x));
+}
+
+// Calculate orbital velocity using vis-viva equation
+export function calculateOrbitalVelocity(r: Kilometers, a: Kilometers, mu: GravitationalParameter): KilometersPerSecond {
+  // v = sqrt(μ(2/r - 1/a))
+  return kmPerSecond(Math.sqrt(mu * (2 / r - 1 / a)));
+}
+
+// Calculate orbital energy
+export function calculateOrbitalEnergy(velocity: Velocity3D, position: Position3D, mu: number): number {
+  const v = Math.sqrt(velocity.x ** 2 + velocity.y ** 2 + velocity.z ** 2);
+  const r = Math.sqrt(position.x ** 2 + position.y ** 2 + position.z ** 2);
+  // E = v²/2 - μ/r
+  return (v ** 2) / 2 - mu / r;
+}
+
+// Calculate specific angular momentum
+export function calculateAngularMomentum(position: Position3D, velocity: Velocity3D): Position3D {
+  // h = r × v
+  return {
+    x: position.y * velocity.z - position.z * velocity.y,
+    y: position.z * velocity.x - position.x * velocity.z,
+    z: position.x * velocity.y - position.y * velocity.x
+  };
+}
+
+// Quantities derived from a state vector about a central body
+export interface OrbitQuantities {
+  radius: number;                   // km
+  speed: number;                    // km/s
+  flightPathAngle: number;          // γ, angle of the velocity above the local horizontal (rad)
+  specificEnergy: number;           // E = v²/2 - μ/r (km²/s²)
+  angularMomentum: number;          // |h| = |r × v| (km²/s)
+  periapsisRadius: number;          // r_p = a(1 - e) (km)
+  apoapsisRadius: number;           // r_a = a(1 + e) (km), Infinity for open orbits
+  periapsisAltitude: number;        // Above the body's mean radius (km)
+  apoapsisAltitude: number;
+  period: number;                   // T = 2π √(a³/μ) (s), Infinity for open orbits
+  timeToPeriapsis: number | null;   // s; null once an open orbit has passed periapsis
+  timeToApoapsis: number | null;    // s; null for open orbits
+}
+
+export function calculateOrbitQuantities(position: Position3D, velocity: Velocity3D, body: CentralBody): OrbitQuantities {
+  const { mu } = body;
+  const elements = cartesianToOrbitalElements(position, velocity, body, J2000_JD);
+  const { semiMajorAxis: a, eccentricity: e } = elements;
+  const p = elements.semiLatusRectum ?? a * (1 - e * e);
+  const h = magnitude(calculateAngularMomentum(position, velocity));
+  const closed = e < 1 && !isParabolic(e);
+  
+  // r_p = p / (1 + e) is a(1 - e) for conics with finite a and still holds for parabolas
+  const periapsisRadius = p / (1 + e);
+  const apoapsisRadius = closed ? a * (1 + e) : Infinity;
+  const period = closed ? TWO_PI * Math.sqrt(a ** 3 / mu) : Infinity;
+  
+  // Time since periapsis from the mean anomaly and the matching mean motion
+  const { meanAnomaly: M } = trueToMeanAnomaly(elements.trueAnomaly, e);
+  let timeToPeriapsis: number | null;
+  let timeToApoapsis: number | null = null;
+  if (closed) {
+    const n = TWO_PI / period;
+    timeToPeriapsis = wrapAngle(TWO_PI - M) / n;
+    timeToApoapsis = wrapAngle(Math.PI - M) / n;
+  } else {
+    // Open orbits pass periapsis once: M < 0 while inbound
+    const n = isParabolic(e) ? 2 * Math.sqrt(mu / p ** 3) : Math.sqrt(mu / (-a) ** 3);
+    timeToPeriapsis = M < 0 ? -M / n : null;
+  }
+  
+  return {
+    radius: magnitude(position),
+    speed: magnitude(velocity),
+    flightPathAngle: Math.atan2(dot(position, velocity), h),
+    specificEnergy: calculateOrbitalEnergy(velocity, position, mu),
+    angularMomentum: h,
+    periapsisRadius,
+    apoapsisRadius,
+    periapsisAltitude: periapsisRadius - body.radius,
+    apoapsisAltitude: apoapsisRadius - body.radius,
+    period,
+    timeToPeriapsis,
+    timeToApoapsis
+  };
+}
+
+// Convert orbital elements to Cartesian coordinates
+export function orbitalElementsToCartesian(elements: OrbitalElements, mu: number): { position: Position3D, velocity: Velocity3D } {
+  const { semiMajorAxis: a, eccentricity: e, inclination: i, longitudeOfAscendingNode: Omega, argumentOfPeriapsis: omega, trueAnomaly: nu } = elements;
+  
+  // Semi-latus rectum stays finite for parabolic orbits where a is infinite
+  const p = elements.semiLatusRectum ?? a * (1 - e * e);
+  
+  // Calculate distance from focus
+  const r = p / (1 + e * Math.cos(nu));
+  
+  // Position in orbital plane
+  const x_orb = r * Math.cos(nu);
+  const y_orb = r * Math.sin(nu);
+  
+  // Velocity in orbital plane
+  const h = Math.sqrt(mu * p);
+  const vx_orb = -mu / h * Math.sin(nu);
+  const vy_orb = mu / h * (e + Math.cos(nu));
+  
+  // Rotation matrices for 3D transformation
+  const cosOmega = Math.cos(Omega);
+  const sinOmega = Math.sin(Omega);
+  const cosOmega_l = Math.cos(omega);
+  const sinOmega_l = Math.sin(omega);
+  const cosI = Math.cos(i);
+  const sinI = Math.sin(i);
+  
+  // Transform to 3D coordinates
+  const position: Position3D = {
+    x: x_orb * (cosOmega * cosOmega_l - sinOmega * sinOmega_l * cosI) - y_orb * (cosOmega * sinOmega_l + sinOmega * cosOmega_l * cosI),
+    y: x_orb * (sinOmega * cosOmega_l + cosOmega * sinOmega_l * cosI) - y_orb * (sinOmega * sinOmega_l - cosOmega * cosOmega_l * cosI),
+    z: x_orb * (sinOmega_l * sinI) + y_orb * (cosOmega_l * sinI)
+  };
+  
+  const velocity: Velocity3D = {
+    x: vx_orb * (cosOmega * cosOmega_l - sinOmega * sinOmega_l * cosI) - vy_orb * (cosOmega * sinOmega_l + sinOmega * cosOmega_l * cosI),
+    y: vx_orb * (sinOmega * cosOmega_l + cosOmega * sinOmega_l * cosI) - vy_orb * (sinOmega * sinOmega_l - cosOmega * cosOmega_l * cosI),
+    z: vx_orb * (sinOmega_l * sinI) + vy_orb * (cosOmega_l * sinI)
+  };
+  
+  return { position, velocity };
+}
+
+// Mean anomaly from true anomaly for any conic
+// Ellipse: M = E - e sin E, hyperbola: M = e sinh H - H, parabola: M = D + D³/3 (Barker)
+export function trueToMeanAnomaly(nu: number, e: number): { meanAnomaly: number; eccentricAnomaly?: number; hyperbolicAnomaly?: number } {
+  if (isParabolic(e)) {
+    const D = Math.tan(nu / 2);
+    return { meanAnomaly: D + D ** 3 / 3 };
+  }
+  if (e < 1) {
+    const E = 2 * Math.atan2(Math.sqrt(1 - e) * Math.sin(nu / 2), Math.sqrt(1 + e) * Math.cos(nu / 2));
+    return { meanAnomaly: wrapAngle(E - e * Math.sin(E)), eccentricAnomaly: wrapAngle(E) };
+  }
+  // Hyperbolic anomaly is only defined between the asymptotes, so use ν in (-π, π]
+  const nuSigned = nu > Math.PI ? nu - TWO_PI : nu;
+  const H = 2 * Math.atanh(Math.sqrt((e - 1) / (e + 1)) * Math.tan(nuSigned / 2));
+  return { meanAnomaly: e * Math.sinh(H) - H, hyperbolicAnomaly: H };
+}
+
+// Convert Cartesian coordinates to orbital elements relative to a central body.
+// Built on the eccentricity vector; singular geometries fall back to:
+//   circular inclined   -> ω = 0, ν = argument of latitude u
+//   equatorial elliptic -> Ω = 0, ω = longitude of periapsis
+//   circular equatorial -> Ω = ω = 0, ν = true longitude λ
+export function cartesianToOrbitalElements(position: Position3D, velocity: Velocity3D, body: CentralBody, epoch: number): OrbitalElements {
+  const { mu } = body;
+  const r = magnitude(position);
+  const v = magnitude(velocity);
+  const rDotV = dot(position, velocity);
+  
+  // Angular momentum
+  const h_vec = calculateAngularMomentum(position, velocity);
+  const h = magnitude(h_vec);
+  
+  // Eccentricity vector: e = ((v² - μ/r) r - (r·v) v) / μ
+  const e_vec = scaleVector(
+    subtractVectors(scaleVector(position, v ** 2 - mu / r), scaleVector(velocity, rDotV)),
+    1 / mu
+  );
+  const e = magnitude(e_vec);
+  
+  // Semi-latus rectum and semi-major axis (infinite for parabolas, negative for hyperbolas)
+  const p = h ** 2 / mu;
+  const energy = calculateOrbitalEnergy(velocity, position, mu);
+  const a = isParabolic(e) ? Infinity : -mu / (2 * energy);
+  
+  // Inclination
+  const i = Math.acos(clampUnit(h_vec.z / h));
+  
+  // Node vector n = k × h
+  const n_vec = { x: -h_vec.y, y: h_vec.x, z: 0 };
+  const n = magnitude(n_vec);
+  
+  const circular = e < CIRCULAR_TOLERANCE;
+  const equatorial = n / h < EQUATORIAL_TOLERANCE;
+  const retrograde = h_vec.z < 0;
+  
+  // Longitude of ascending node
+  const Omega = equatorial ? 0 : wrapAngle(Math.atan2(n_vec.y, n_vec.x));
+  
+  // Argument of periapsis
+  let omega = 0;
+  if (!circular) {
+    if (equatorial) {
+      const longitudeOfPeriapsis = Math.atan2(e_vec.y, e_vec.x);
+      omega = wrapAngle(retrograde ? -longitudeOfPeriapsis : longitudeOfPeriapsis);
+    } else {
+      omega = Math.acos(clampUnit(dot(n_vec, e_vec) / (n * e)));
+      if (e_vec.z < 0) omega = TWO_PI - omega;
+    }
+  }
+  
+  // Argument of latitude (angle from the node to the spacecraft)
+  let u = 0;
+  if (!equatorial) {
+    u = Math.acos(clampUnit(dot(n_vec, position) / (n * r)));
+    if (position.z < 0) u = TWO_PI - u;
+  }
+  
+  // True longitude (angle from the reference direction to the spacecraft)
+  const lambda = wrapAngle(retrograde ? -Math.atan2(position.y, position.x) : Math.atan2(position.y, position.x));
+  
+  // True anomaly
+  let nu: number;
+  if (!circular) {
+    nu = Math.acos(clampUnit(dot(e_vec, position) / (e * r)));
+    if (rDotV < 0) nu = TWO_PI - nu;
+  } else {
+    nu = equatorial ? lambda : u;
+  }
+  
+  const { meanAnomaly, eccentricAnomaly, hyperbolicAnomaly } = trueToMeanAnomaly(nu, e);
+  
+  return {
+    semiMajorAxis: a,
+    eccentricity: e,
+    inclination: i,
+    longitudeOfAscendingNode: Omega,
+    argumentOfPeriapsis: omega,
+    trueAnomaly: nu,
+    meanAnomaly,
+    altitude: r - body.radius,
+    epoch,
+    eccentricAnomaly,
+    hyperbolicAnomaly,
+    semiLatusRectum: p,
+    argumentOfLatitude: equatorial ? lambda : u,
+    trueLongitude: equatorial ? lambda : wrapAngle(Omega + u)
+  };
+}
+
+// Numerical integration, or analytic two-body motion via the universal-variable
+// Kepler solver (exact for any conic, but ignores every perturbation)
+export type PropagationMethod = IntegratorType | 'kepler';
+
+export interface MotionOptions extends Omit<PropagatorOptions, 'integrator'> {
+  integrator?: PropagationMethod;
+  time?: number;                  // Mission elapsed time at the start of the step (s)
+  missionEpoch?: number;          // Epoch at time = 0 (Julian Date, TT)
+  perturbations?: ForceModel[];   // Extra force models beyond central and lunar gravity
+  moonEphemeris?: (time: number) => StateVector; // Earth-centred Moon state at simulation time t
+  zonalDegree?: number;           // Primary's zonal harmonics up to J2-J4; 0 for a point mass (default 2)
+  atmosphere?: AtmosphereOptions; // Earth's atmospheric drag, applied while Earth is the primary
+  sunEphemeris?: (time: number) => Position3D; // Earth-centred Sun position; enables solar perturbations
+  solarGravity?: boolean;             // Sun third-body gravity (default true with a Sun ephemeris)
+  solarRadiationPressure?: boolean;   // Eclipse-aware SRP (default true with a Sun ephemeris)
+}
+
+// Every force beyond the primary's point-mass gravity acting on the
+// spacecraft: zonal harmonics, the other body, the Sun, drag and any extra
+// perturbations. Accelerations are relative to the spacecraft's primary.
+export function perturbingForces(spacecraft: Spacecraft, earth: CelestialBody, moon?: CelestialBody, options: MotionOptions = {}): ForceModel[] {
+  const aroundMoon = spacecraft.primary === 'moon' && moon;
+  const primary = aroundMoon ? moon : earth;
+  const secondary = aroundMoon ? earth : moon;
+  // Moon state at time t, falling back to its current (fixed) state. Only
+  // called when there is a Moon.
+  const moonAt = (t: number) => options.moonEphemeris
+    ? options.moonEphemeris(t)
+    : { position: moon!.position, velocity: moon!.velocity };
+  
+  const forces: ForceModel[] = [];
+  const zonalDegree = options.zonalDegree ?? 2;
+  if (zonalDegree >= 2 && primary.j2) {
+    forces.push(zonalHarmonicsGravity(primary, zonalDegree));
+  }
+  if (secondary && typeof secondary.mu === "number") {
+    // Position of the perturbing body relative to the primary at time t
+    forces.push(thirdBodyGravity(secondary.mu, (t) => aroundMoon
+      ? subtractVectors(earth.position, moonAt(t).position)
+      : subtractVectors(moonAt(t).position, earth.position)));
+  }
+  if (options.sunEphemeris) {
+    const sunEphemeris = options.sunEphemeris;
+    // Sun and shadow-casting bodies relative to the primary at time t
+    const primaryAt = (t: number) => aroundMoon ? moonAt(t).position : earth.position;
+    const sunAt = (t: number) => subtractVectors(sunEphemeris(t), primaryAt(t));
+    if (options.solarGravity ?? true) {
+      forces.push(thirdBodyGravity(MU_SUN, sunAt));
+    }
+    if ((options.solarRadiationPressure ?? true) && spacecraft.srpArea > 0) {
+      forces.push(solarRadiationPressure(spacecraft, sunAt, (t) => {
+        const origin = primaryAt(t);
+        const occulters = [{ radius: earth.radius, position: subtractVectors(earth.position, origin) }];
+        if (moon) occulters.push({ radius: moon.radius, position: subtractVectors(moonAt(t).position, origin) });
+        return occulters;
+      }));
+    }
+  }
+  if (!aroundMoon && options.atmosphere && spacecraft.dragArea > 0) {
+    forces.push(dragAcceleration(primary, spacecraft, options.atmosphere));
+  }
+  if (options.perturbations) {
+    forces.push(...options.perturbations);
+  }
+  return forces;
+}
+
+// Update orbital motion over time by integrating the spacecraft state vector.
+// Orbital elements are derived from the propagated state, so perturbations
+// and burns accumulate instead of being reset to the reference ellipse.
+// The state is relative to the spacecraft's current primary (patched conics);
+// the other body acts as a third-body perturbation.
+export function updateOrbitalMotion(spacecraft: Spacecraft, earth: CelestialBody, deltaTime: number, moon?: CelestialBody, options: MotionOptions = {}): Spacecraft {
+  const aroundMoon = spacecraft.primary === 'moon' && moon;
+  const primary = aroundMoon ? moon : earth;
+  const mu = primary.mu;
+  
+  const t0 = options.time ?? 0;
+  // Only called when there is a Moon
+  const moonAt = (t: number) => options.moonEphemeris
+    ? options.moonEphemeris(t)
+    : { position: moon!.position, velocity: moon!.velocity };
+  
+  const forces: ForceModel[] = [centralGravity(mu), ...perturbingForces(spacecraft, earth, moon, options)];
+  
+  const state = { position: spacecraft.position, velocity: spacecraft.velocity };
+  const { integrator, ...propagatorOptions } = options;
+  const propagated = integrator === 'kepler'
+    ? propagateKepler(state, mu, deltaTime)
+    : propagate(state, forces, t0, deltaTime, { ...propagatorOptions, integrator });
+  
+  // Re-base into the Moon- or Earth-centred frame when crossing the Moon's SOI
+  const { primary: newPrimary, state: { position, velocity } } = moon
+    ? resolvePrimary(propagated, aroundMoon ? 'moon' : 'earth', earth, { ...moon, ...moonAt(t0 + deltaTime) })
+    : { primary: 'earth' as BodyId, state: propagated };
+  const centralBody = newPrimary === 'moon' && moon ? moon : earth;
+  
+  return {
+    ...spacecraft,
+    primary: newPrimary,
+    position,
+    velocity,
+    orbitalElements: cartesianToOrbitalElements(
+      position,
+      velocity,
+      { mu: centralBody.mu, radius: centralBody.radius },
+      epochAt(options.missionEpoch ?? J2000_JD, t0 + deltaTime)
+    )
+  };
+}
+
+// Calculate orbit points for visualization, relative to the central body
+export function calculateOrbitPoints(elements: OrbitalElements, centralBody: CentralBody, numPoints: number = 64): Position3D[] {
+  const points: Position3D[] = [];
+  const mu = centralBody.mu;
+  
+  // Open orbits only exist between the asymptotes, ν∞ = acos(-1/e)
+  if (elements.eccentricity >= 1) {
+    const nuMax = 0.9 * Math.acos(Math.max(-1, -1 / elements.eccentricity));
+    for (let i = 0; i < numPoints; i++) {
+      const nu = -nuMax + (2 * nuMax * i) / (numPoints - 1);
+      const { position } = orbitalElementsToCartesian({ ...elements, trueAnomaly: nu }, mu);
+      points.push(position);
+    }
+    return points;
+  }
+  
+  for (let i = 0; i < numPoints; i++) {
+    const nu = (2 * Math.PI * i) / numPoints;
+    const tempElements = { ...elements, trueAnomaly: nu };
+    const { position } = orbitalElementsToCartesian(tempElements, mu);
+    points.push(position);
+  }
+  
+  return points;
+}
+
+// Calculate Hohmann transfer delta-v
+export function calculateHohmannTransfer(r1: Kilometers, r2: Kilometers, mu: GravitationalParameter): { deltaV1: KilometersPerSecond, deltaV2: KilometersPerSecond } {
+  // Δv₁ = √(μ/r₁) * (√(2r₂/(r₁+r₂)) - 1)
+  const deltaV1 = kmPerSecond(Math.sqrt(mu / r1) * (Math.sqrt(2 * r2 / (r1 + r2)) - 1));
+  
+  // Δv₂ = √(μ/r₂) * (1 - √(2r₁/(r₁+r₂)))
+  const deltaV2 = kmPerSecond(Math.sqrt(mu / r2) * (1 - Math.sqrt(2 * r1 / (r1 + r2))));
+  
+  return { deltaV1, deltaV2 };
+}
@@ -0,0 +1,117 @@
+// Perturbing force models and their analytic secular effects
+
+import { CentralBody, OrbitalElements, Position3D } from "./orbitalMechanics";
+import { ForceModel, StateVector } from "./propagator";
+import { cross, dot, magnitude } from "./vectorMath";
+
+// Zonal harmonic coefficients (unnormalized)
+export const J2_EARTH = 1.08262668e-3;
+export const J3_EARTH = -2.53265649e-6;
+export const J4_EARTH = -1.61962159e-6;
+export const J2_MOON = 2.0330e-4;
+
+// Earth's mean motion around the Sun, the nodal rate a sun-synchronous orbit must match
+export const SUN_SYNCHRONOUS_RATE = 2 * Math.PI / (365.2422 * 86400); // rad/s
+
+export interface ZonalHarmonics {
+  j2?: number;
+  j3?: number;
+  j4?: number;
+}
+
+export interface SecularRates {
+  nodalRate: number;        // dΩ/dt (rad/s)
+  apsidalRate: number;      // dω/dt (rad/s)
+  meanAnomalyRate: number;  // dM/dt including the mean motion (rad/s)
+}
+
+// Zonal gravity of an axisymmetric body whose pole is the frame z axis,
+// up to the given degree (2-4). Position is relative to the body centre.
+export function zonalHarmonicsGravity(body: CentralBody & ZonalHarmonics, degree: number = 2): ForceModel {
+  const { mu, radius: R, j2 = 0, j3 = 0, j4 = 0 } = body;
+  return ({ position: { x, y, z } }) => {
+    const r2 = x * x + y * y + z * z;
+    const r = Math.sqrt(r2);
+    const z2r2 = z * z / r2;
+    let ax = 0;
+    let ay = 0;
+    let az = 0;
+
+    if (degree >= 2 && j2 !== 0) {
+      const k = -1.5 * j2 * mu * R * R / (r2 * r2 * r);
+      ax += k * x * (1 - 5 * z2r2);
+      ay += k * y * (1 - 5 * z2r2);
+      az += k * z * (3 - 5 * z2r2);
+    }
+
+    if (degree >= 3 && j3 !== 0) {
+      const k = -2.5 * j3 * mu * R ** 3 / (r2 ** 3 * r);
+      const xy = 3 * z - 7 * z * z2r2;
+      ax += k * x * xy;
+      ay += k * y * xy;
+      az += k * (6 * z * z - 7 * z * z * z2r2 - 0.6 * r2);
+    }
+
+    if (degree >= 4 && j4 !== 0) {
+      const k = 1.875 * j4 * mu * R ** 4 / (r2 ** 3 * r);
+      const xy = 1 - 14 * z2r2 + 21 * z2r2 * z2r2;
+      ax += k * x * xy;
+      ay += k * y * xy;
+      az += k * z * (5 - 70 / 3 * z2r2 + 21 * z2r2 * z2r2);
+    }
+
+    return { x: ax, y: ay, z: az };
+  };
+}
+
+// First-order secular J2 rates of Ω, ω and M (closed orbits only)
+export function j2SecularRates(elements: OrbitalElements, body: CentralBody & ZonalHarmonics): SecularRates {
+  const { semiMajorAxis: a, eccentricity: e, inclination: i } = elements;
+  const j2 = body.j2 ?? 0;
+  if (e >= 1 || !(a > 0)) {
+    return { nodalRate: 0, apsidalRate: 0, meanAnomalyRate: 0 };
+  }
+
+  const n = Math.sqrt(body.mu / a ** 3);
+  const p = a * (1 - e * e);
+  const factor = n * j2 * (body.radius / p) ** 2;
+  const cosI = Math.cos(i);
+
+  return {
+    nodalRate: -1.5 * factor * cosI,
+    apsidalRate: 0.75 * factor * (5 * cosI * cosI - 1),
+    meanAnomalyRate: n + 0.75 * factor * Math.sqrt(1 - e * e) * (3 * cosI * cosI - 1)
+  };
+}
+
+// Inclination whose J2 nodal drift matches the Sun's apparent motion.
+// Returns NaN when no such inclination exists (orbit too high).
+export function sunSynchronousInclination(a: number, e: number, body: CentralBody & ZonalHarmonics): number {
+  const n = Math.sqrt(body.mu / a ** 3);
+  const p = a * (1 - e * e);
+  const cosI = -SUN_SYNCHRONOUS_RATE / (1.5 * n * (body.j2 ?? 0) * (body.radius / p) ** 2);
+  return Math.abs(cosI) <= 1 ? Math.acos(cosI) : NaN;
+}
+
+// Eccentricity of a frozen orbit (ω = 90°) where the J2 and J3 effects on
+// e and ω cancel: e ≈ -J3 R sin i / (2 J2 a)
+export function frozenOrbitEccentricity(a: number, i: number, body: CentralBody & ZonalHarmonics): number {
+  const { j2 = 0, j3 = 0 } = body;
+  return j2 === 0 ? 0 : Math.abs(-j3 * body.radius * Math.sin(i) / (2 * j2 * a));
+}
+
+// Rate of change of specific orbital energy under a perturbing acceleration
+// F = F_R e_R + F_T e_T + F_N e_N (per unit mass, RTN components):
+// dE/dt = v · F = F_R v_r + F_T h / r  (km²/s³)
+export function specificEnergyRate(state: StateVector, rtnAcceleration: Position3D): number {
+  const r = magnitude(state.position);
+  const radialVelocity = dot(state.position, state.velocity) / r;
+  const h = magnitude(cross(state.position, state.velocity));
+  return rtnAcceleration.x * radialVelocity + rtnAcceleration.y * h / r;
+}
+
+// Rate of change of the specific angular momentum magnitude: dh/dt = r F_T (km²/s²).
+// F_N only turns h (tilting the orbit plane) without changing its length.
+export function angularMomentumRate(state: StateVector, rtnAcceleration: Position3D): number {
+  return magnitude(state.position) * rtnAcceleration.y;
+}
@@ -0,0 +1,229 @@
+// Numerical state-vector propagation with pluggable force models
+
+import { Position3D, Velocity3D } from "./orbitalMechanics";
+
+export interface StateVector {
+  position: Position3D;
+  velocity: Velocity3D;
+}
+
+// A force model returns the acceleration it contributes at time t (seconds)
+export type ForceModel = (state: StateVector, time: number) => Position3D;
+
+export type IntegratorType = 'rk4' | 'rk45' | 'leapfrog';
+
+export interface PropagatorOptions {
+  integrator?: IntegratorType;
+  maxStep?: number;    // Largest internal step (s)
+  tolerance?: number;  // Relative error tolerance for adaptive RK45
+}
+
+const DEFAULT_MAX_STEP = 10;
+const DEFAULT_TOLERANCE = 1e-9;
+const MAX_ADAPTIVE_STEPS = 10000;
+
+// The adaptive integrator could not reach the requested time within its step
+// budget; no partial state is returned
+export class PropagationError extends Error {
+  constructor(readonly reached: number, readonly target: number) {
+    super(`Adaptive propagation stalled at t = ${reached.toFixed(3)} s of ${target.toFixed(3)} s`);
+    this.name = 'PropagationError';
+  }
+}
+
+// Central body point-mass gravity: a = -μ r / |r|³
+export function centralGravity(mu: number): ForceModel {
+  return ({ position }) => {
+    const r2 = position.x ** 2 + position.y ** 2 + position.z ** 2;
+    const r = Math.sqrt(r2) || 1e-9;
+    const k = -mu / (r2 * r);
+    return { x: k * position.x, y: k * position.y, z: k * position.z };
+  };
+}
+
+// Third-body perturbation in a frame centred on the primary
+// a = μ₃ (d/|d|³ - s/|s|³), d = s - r, s = third body position
+export function thirdBodyGravity(mu: number, getPosition: (time: number) => Position3D): ForceModel {
+  return ({ position }, time) => {
+    const s = getPosition(time);
+    const dx = s.x - position.x;
+    const dy = s.y - position.y;
+    const dz = s.z - position.z;
+    const d2 = dx * dx + dy * dy + dz * dz;
+    const d = Math.sqrt(d2) || 1e-9;
+    const s2 = s.x ** 2 + s.y ** 2 + s.z ** 2;
+    const sMag = Math.sqrt(s2);
+    const direct = mu / (d2 * d);
+    const indirect = sMag > 0 ? mu / (s2 * sMag) : 0;
+    return {
+      x: direct * dx - indirect * s.x,
+      y: direct * dy - indirect * s.y,
+      z: direct * dz - indirect * s.z
+    };
+  };
+}
+
+// Sum the accelerations of all force models
+export function totalAcceleration(forces: ForceModel[], state: StateVector, time: number): Position3D {
+  const total = { x: 0, y: 0, z: 0 };
+  for (const force of forces) {
+    const a = force(state, time);
+    total.x += a.x;
+    total.y += a.y;
+    total.z += a.z;
+  }
+  return total;
+}
+
+type StateArray = number[];
+
+function toArray(state: StateVector): StateArray {
+  const { position: p, velocity: v } = state;
+  return [p.x, p.y, p.z, v.x, v.y, v.z];
+}
+
+function fromArray(y: StateArray): StateVector {
+  return {
+    position: { x: y[0], y: y[1], z: y[2] },
+    velocity: { x: y[3], y: y[4], z: y[5] }
+  };
+}
+
+// dy/dt = [v, a(r, v, t)]
+function derivative(forces: ForceModel[], y: StateArray, time: number): StateArray {
+  const a = totalAcceleration(forces, fromArray(y), time);
+  return [y[3], y[4], y[5], a.x, a.y, a.z];
+}
+
+// y + h * Σ bᵢ kᵢ
+function combine(y: StateArray, h: number, ks: StateArray[], weights: number[]): StateArray {
+  return y.map((yi, i) => {
+    let sum = 0;
+    for (let j = 0; j < weights.length; j++) {
+      if (weights[j] !== 0) sum += weights[j] * ks[j][i];
+    }
+    return yi + h * sum;
+  });
+}
+
+// Classic fourth-order Runge-Kutta step
+export function rk4Step(state: StateVector, forces: ForceModel[], time: number, h: number): StateVector {
+  const y = toArray(state);
+  const k1 = derivative(forces, y, time);
+  const k2 = derivative(forces, combine(y, h / 2, [k1], [1]), time + h / 2);
+  const k3 = derivative(forces, combine(y, h / 2, [k2], [1]), time + h / 2);
+  const k4 = derivative(forces, combine(y, h, [k3], [1]), time + h);
+  return fromArray(combine(y, h / 6, [k1, k2, k3, k4], [1, 2, 2, 1]));
+}
+
+// Kick-drift-kick leapfrog: symplectic for position-dependent forces,
+// so energy stays bounded over long time warps
+export function leapfrogStep(state: StateVector, forces: ForceModel[], time: number, h: number): StateVector {
+  const a0 = totalAcceleration(forces, state, time);
+  const halfVelocity = {
+    x: state.velocity.x + a0.x * h / 2,
+    y: state.velocity.y + a0.y * h / 2,
+    z: state.velocity.z + a0.z * h / 2
+  };
+  const position = {
+    x: state.position.x + halfVelocity.x * h,
+    y: state.position.y + halfVelocity.y * h,
+    z: state.position.z + halfVelocity.z * h
+  };
+  const a1 = totalAcceleration(forces, { position, velocity: halfVelocity }, time + h);
+  return {
+    position,
+    velocity: {
+      x: halfVelocity.x + a1.x * h / 2,
+      y: halfVelocity.y + a1.y * h / 2,
+      z: halfVelocity.z + a1.z * h / 2
+    }
+  };
+}
+
+// Dormand-Prince 5(4) tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+// One Dormand-Prince step, returning the 5th-order solution and the
+// scaled error estimate (≤ 1 means the step meets the tolerance)
+export function rk45Step(
+  state: StateVector,
+  forces: ForceModel[],
+  time: number,
+  h: number,
+  tolerance: number = DEFAULT_TOLERANCE
+): { state: StateVector; error: number } {
+  const y = toArray(state);
+  const ks: StateArray[] = [];
+  for (let s = 0; s < 7; s++) {
+    const ys = s === 0 ? y : combine(y, h, ks, DP_A[s]);
+    ks.push(derivative(forces, ys, time + DP_C[s] * h));
+  }
+  const y5 = combine(y, h, ks, DP_B5);
+  const y4 = combine(y, h, ks, DP_B4);
+
+  let error = 0;
+  for (let i = 0; i < 6; i++) {
+    const scale = tolerance * (1 + Math.max(Math.abs(y[i]), Math.abs(y5[i])));
+    error = Math.max(error, Math.abs(y5[i] - y4[i]) / scale);
+  }
+  return { state: fromArray(y5), error };
+}
+
+// Propagate a state vector by dt seconds starting at time t0. Throws a
+// PropagationError if RK45 runs out of steps before t0 + dt.
+export function propagate(
+  state: StateVector,
+  forces: ForceModel[],
+  t0: number,
+  dt: number,
+  options: PropagatorOptions = {}
+): StateVector {
+  const integrator = options.integrator ?? 'rk4';
+  const maxStep = options.maxStep ?? DEFAULT_MAX_STEP;
+  if (dt === 0) return state;
+
+  if (integrator === 'rk45') {
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+    const direction = Math.sign(dt);
+    let current = state;
+    let t = t0;
+    let remaining = Math.abs(dt);
+    let h = Math.min(maxStep, remaining);
+
+    for (let i = 0; i < MAX_ADAPTIVE_STEPS && remaining > 0; i++) {
+      h = Math.min(h, remaining);
+      const result = rk45Step(current, forces, t, direction * h, tolerance);
+      if (result.error <= 1) {
+        current = result.state;
+        t += direction * h;
+        remaining -= h;
+      }
+      // Standard step-size controller with safety factor and growth limits
+      const factor = result.error === 0 ? 5 : 0.9 * Math.pow(result.error, -0.2);
+      h = Math.min(maxStep, h * Math.min(5, Math.max(0.2, factor)));
+    }
+    if (remaining > 0) throw new PropagationError(t, t0 + dt);
+    return current;
+  }
+
+  const stepFn = integrator === 'leapfrog' ? leapfrogStep : rk4Step;
+  const steps = Math.max(1, Math.ceil(Math.abs(dt) / maxStep));
+  const h = dt / steps;
+  let current = state;
+  for (let i = 0; i < steps; i++) {
+    current = stepFn(current, forces, t0 + i * h, h);
+  }
+  return current;
+}
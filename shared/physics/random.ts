@@ -0,0 +1,22 @@
+// Seeded pseudo-random numbers, so hazard sequences can be replayed
+
+export type Random = () => number;
+
+// A generator whose entire state is the `state` integer, so it can be
+// saved and restored with a snapshot
+export interface SeededRandom extends Random {
+  state: number;
+}
+
+// mulberry32: small, fast and good enough for gameplay randomness
+export function createRandom(seed: number): SeededRandom {
+  const random = (() => {
+    random.state = (random.state + 0x6d2b79f5) | 0;
+    let t = random.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }) as SeededRandom;
+  random.state = seed | 0;
+  return random;
+}
@@ -0,0 +1,103 @@
+// Solar radiation pressure and eclipse (shadow) geometry
+
+import { Position3D, SUN_RADIUS } from "./orbitalMechanics";
+import { ForceModel } from "./propagator";
+import { ASTRONOMICAL_UNIT } from "./ephemeris";
+import { dot, magnitude, subtractVectors } from "./vectorMath";
+
+// Radiation pressure on a perfect absorber at 1 AU
+export const SOLAR_PRESSURE = 4.56e-6; // N/m²
+
+// Cannonball SRP properties of a spacecraft
+export interface SrpProperties {
+  mass: number;         // kg
+  srpArea: number;      // Sunlit cross-section (m²)
+  reflectivity: number; // Cr: 1 = absorbing, 2 = perfectly reflecting
+}
+
+// A body that can cast a shadow, positioned relative to the primary
+export interface Occulter {
+  radius: number;
+  position: Position3D;
+}
+
+export type EclipseState = 'sunlit' | 'penumbra' | 'umbra';
+
+// Fraction of the solar disc visible from a point (1 = full sunlight, 0 =
+// umbra), with the Sun and the occulting body as discs of their apparent
+// size (conical shadow model, Montenbruck & Gill 3.4.2).
+// Positions are relative to the occulter's centre.
+export function shadowFraction(position: Position3D, sun: Position3D, occulterRadius: number): number {
+  const r = magnitude(position);
+  if (r <= occulterRadius) return 0;
+
+  const toSun = subtractVectors(sun, position);
+  const d = magnitude(toSun);
+  const a = Math.asin(Math.min(1, SUN_RADIUS / d));  // Apparent Sun radius
+  const b = Math.asin(occulterRadius / r);            // Apparent occulter radius
+  const c = Math.acos(Math.max(-1, Math.min(1, -dot(position, toSun) / (r * d)))); // Separation
+
+  if (c >= a + b) return 1;
+  if (c <= b - a) return 0;
+  if (c <= a - b) return 1 - (b * b) / (a * a); // Annular
+
+  // Partial overlap of the two discs
+  const x = (c * c + a * a - b * b) / (2 * c);
+  const y = Math.sqrt(Math.max(0, a * a - x * x));
+  const overlap = a * a * Math.acos(x / a) + b * b * Math.acos((c - x) / b) - c * y;
+  return 1 - overlap / (Math.PI * a * a);
+}
+
+// Angular gap between the limbs of the Sun and the occulter (rad): positive
+// in full sunlight, zero at the edge of the penumbra and negative in shadow.
+// Unlike shadowFraction it varies smoothly, so its zeros mark eclipse entry
+// and exit. Positions are relative to the occulter's centre.
+export function shadowMargin(position: Position3D, sun: Position3D, occulterRadius: number): number {
+  const r = Math.max(magnitude(position), occulterRadius);
+  const toSun = subtractVectors(sun, position);
+  const d = magnitude(toSun);
+  const a = Math.asin(Math.min(1, SUN_RADIUS / d));
+  const b = Math.asin(occulterRadius / r);
+  const c = Math.acos(Math.max(-1, Math.min(1, -dot(position, toSun) / (r * d))));
+  return c - (a + b);
+}
+
+// Sunlight fraction with several possible occulters; the deepest shadow wins
+export function illumination(position: Position3D, sun: Position3D, occulters: Occulter[]): number {
+  let fraction = 1;
+  for (const occulter of occulters) {
+    fraction = Math.min(fraction, shadowFraction(
+      subtractVectors(position, occulter.position),
+      subtractVectors(sun, occulter.position),
+      occulter.radius
+    ));
+  }
+  return fraction;
+}
+
+export function eclipseState(fraction: number): EclipseState {
+  if (fraction >= 1) return 'sunlit';
+  return fraction <= 0 ? 'umbra' : 'penumbra';
+}
+
+// Cannonball SRP pushing away from the Sun, scaled by the inverse square of
+// the Sun distance and switched off in shadow. The Sun and occulter
+// positions at time t are relative to the primary, like the spacecraft state.
+export function solarRadiationPressure(
+  spacecraft: SrpProperties,
+  sunAt: (time: number) => Position3D,
+  occultersAt: (time: number) => Occulter[]
+): ForceModel {
+  const areaToMass = spacecraft.reflectivity * spacecraft.srpArea / spacecraft.mass; // m²/kg
+  return ({ position }, time) => {
+    const sun = sunAt(time);
+    const fraction = illumination(position, sun, occultersAt(time));
+    if (fraction === 0) return { x: 0, y: 0, z: 0 };
+
+    const fromSun = subtractVectors(position, sun);
+    const d = magnitude(fromSun);
+    // N/m² · m²/kg = m/s², /1000 for km/s²
+    const k = fraction * SOLAR_PRESSURE * areaToMass * (ASTRONOMICAL_UNIT / d) ** 2 / 1000 / d;
+    return { x: k * fromSun.x, y: k * fromSun.y, z: k * fromSun.z };
+  };
+}
@@ -0,0 +1,142 @@
+import { Position3D, Velocity3D, OrbitalElements, CentralBody, cartesianToOrbitalElements, EARTH_BODY } from "./orbitalMechanics";
+import type { Spacecraft } from "../simulationEngine";
+import { Kilograms, MetersPerSecond, Seconds, kilograms, metersPerSecond, toKmPerSecond } from "./units";
+
+// Standard gravity relating Isp to exhaust velocity (m/s²)
+export const STANDARD_GRAVITY = 9.81;
+
+export interface BurnResult {
+  spacecraft: Spacecraft;
+  deltaV: MetersPerSecond;
+  fuelUsed: Kilograms;
+}
+
+// Tsiolkovsky rocket equation: Δv = ve * ln(mi/mf)
+export function calculateDeltaV(initialMass: Kilograms, finalMass: Kilograms, specificImpulse: Seconds): MetersPerSecond {
+  const exhaustVelocity = specificImpulse * STANDARD_GRAVITY; // Convert Isp to exhaust velocity
+  return metersPerSecond(exhaustVelocity * Math.log(initialMass / finalMass));
+}
+
+// Calculate fuel consumption from delta-v
+export function calculateFuelConsumption(deltaV: MetersPerSecond, mass: Kilograms, specificImpulse: Seconds): Kilograms {
+  const exhaustVelocity = specificImpulse * STANDARD_GRAVITY;
+  const massRatio = Math.exp(deltaV / exhaustVelocity);
+  return kilograms(mass * (massRatio - 1) / massRatio);
+}
+
+// Apply an impulsive burn at the spacecraft's current epoch; elements are
+// recomputed relative to the given central body
+export function applyBurn(spacecraft: Spacecraft, burnDirection: Position3D, deltaVMagnitude: MetersPerSecond, centralBody: CentralBody = EARTH_BODY): BurnResult {
+  // Normalize burn direction
+  const magnitude = Math.sqrt(burnDirection.x ** 2 + burnDirection.y ** 2 + burnDirection.z ** 2);
+  // A stage without engines or Isp delivers nothing
+  if (magnitude === 0 || !(spacecraft.thrust > 0) || !(spacecraft.specificImpulse > 0)) {
+    return { spacecraft, deltaV: metersPerSecond(0), fuelUsed: kilograms(0) };
+  }
+  
+  const normalizedDirection = {
+    x: burnDirection.x / magnitude,
+    y: burnDirection.y / magnitude,
+    z: burnDirection.z / magnitude
+  };
+  
+  // Calculate fuel consumption at the active stage's Isp
+  const specificImpulse: Seconds = spacecraft.specificImpulse;
+  const fuelUsed = calculateFuelConsumption(deltaVMagnitude, kilograms(spacecraft.mass), specificImpulse);
+  
+  // Check if enough fuel available
+  if (fuelUsed > spacecraft.fuel) {
+    const availableDeltaV = calculateDeltaV(kilograms(spacecraft.mass), kilograms(spacecraft.mass - spacecraft.fuel), specificImpulse);
+    const actualFuelUsed = kilograms(spacecraft.fuel);
+    const actualDeltaV = availableDeltaV;
+    const dv = toKmPerSecond(actualDeltaV);
+    
+    // Apply limited burn
+    const newVelocity = {
+      x: spacecraft.velocity.x + normalizedDirection.x * dv,
+      y: spacecraft.velocity.y + normalizedDirection.y * dv,
+      z: spacecraft.velocity.z + normalizedDirection.z * dv
+    };
+    
+    const newMass = spacecraft.mass - actualFuelUsed;
+    const newFuel = 0;
+    
+    // Recalculate orbital elements
+    const newOrbitalElements = cartesianToOrbitalElements(spacecraft.position, newVelocity, centralBody, spacecraft.orbitalElements.epoch);
+    
+    return {
+      spacecraft: {
+        ...spacecraft,
+        velocity: newVelocity,
+        mass: newMass,
+        fuel: newFuel,
+        orbitalElements: newOrbitalElements,
+        isBurning: true
+      },
+      deltaV: actualDeltaV,
+      fuelUsed: actualFuelUsed
+    };
+  }
+  
+  // Apply full burn
+  const dv = toKmPerSecond(deltaVMagnitude);
+  const newVelocity = {
+    x: spacecraft.velocity.x + normalizedDirection.x * dv,
+    y: spacecraft.velocity.y + normalizedDirection.y * dv,
+    z: spacecraft.velocity.z + normalizedDirection.z * dv
+  };
+  
+  const newMass = spacecraft.mass - fuelUsed;
+  const newFuel = spacecraft.fuel - fuelUsed;
+  
+  // Recalculate orbital elements
+  const newOrbitalElements = cartesianToOrbitalElements(spacecraft.position, newVelocity, centralBody, spacecraft.orbitalElements.epoch);
+  
+  return {
+    spacecraft: {
+      ...spacecraft,
+      velocity: newVelocity,
+      mass: newMass,
+      fuel: newFuel,
+      orbitalElements: newOrbitalElements,
+      isBurning: true
+    },
+    deltaV: deltaVMagnitude,
+    fuelUsed
+  };
+}
+
+// Calculate spacecraft performance metrics
+export function calculatePerformanceMetrics(spacecraft: Spacecraft): {
+  efficiency: number;
+  fuelRatio: number;
+  totalDeltaV: number;
+} {
+  const fuelUsed = spacecraft.maxFuel - spacecraft.fuel;
+  const fuelRatio = spacecraft.fuel / spacecraft.maxFuel;
+  const efficiency = 1 - (fuelUsed / spacecraft.maxFuel);
+  
+  // Estimate total delta-v used
+  const totalDeltaV = calculateDeltaV(kilograms(spacecraft.maxMass), kilograms(spacecraft.mass), spacecraft.specificImpulse);
+  
+  return {
+    efficiency,
+    fuelRatio,
+    totalDeltaV
+  };
+}
+
+// Check if spacecraft can reach target with available fuel
+export function canReachTarget(spacecraft: Spacecraft, targetPosition: Position3D): boolean {
+  const distance = Math.sqrt(
+    (spacecraft.position.x - targetPosition.x) ** 2 +
+    (spacecraft.position.y - targetPosition.y) ** 2 +
+    (spacecraft.position.z - targetPosition.z) ** 2
+  );
+  
+  // Rough estimate: assume direct trajectory needs ~sqrt(distance) m/s delta-v
+  const estimatedDeltaV = Math.sqrt(distance * 1000); // Very rough approximation
+  const maxDeltaV = calculateDeltaV(kilograms(spacecraft.mass), kilograms(spacecraft.mass - spacecraft.fuel), spacecraft.specificImpulse);
+  
+  return maxDeltaV >= estimatedDeltaV;
+}
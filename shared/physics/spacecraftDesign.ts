@@ -0,0 +1,218 @@
+// Spacecraft designs: a stack of stages, each with its own structure,
+// propellant, engines and RCS, and the staged Δv budget that follows
+//
+// stages[0] is the bottom of the stack: it burns first and is the first to be
+// jettisoned. The last stage stays with the spacecraft to the end.
+
+import { CentralBody } from "./orbitalMechanics";
+import { STANDARD_GRAVITY, calculateDeltaV } from "./spacecraft";
+import { MetersPerSecond, Seconds, kilograms, metersPerSecond, seconds } from "./units";
+
+export interface EngineDefinition {
+  name: string;
+  thrust: number;            // Vacuum thrust per engine (N)
+  vacuumIsp: Seconds;
+  seaLevelIsp: Seconds;
+  count: number;
+}
+
+// Attitude-control thrusters with their own propellant. They are not flown
+// as translation burns: the propellant is carried as mass and its Δv is for
+// reference only.
+export interface RcsDefinition {
+  thrust: number;            // Total translation thrust (N)
+  isp: Seconds;
+  propellant: number;        // kg
+}
+
+export interface StageDefinition {
+  name: string;
+  dryMass: number;           // kg, tanks and structure
+  propellant: number;        // kg of main-engine propellant
+  engines: EngineDefinition[];
+  rcs?: RcsDefinition;
+}
+
+export interface SpacecraftDesign {
+  name: string;
+  stages: StageDefinition[];
+}
+
+export interface StageBudget {
+  name: string;
+  startMass: number;         // Stack mass when the stage lights (kg)
+  endMass: number;           // ... and once its propellant is spent
+  deltaV: MetersPerSecond;
+  burnTime: number;          // s at full thrust
+  thrust: number;            // N, vacuum
+  rcsDeltaV: MetersPerSecond;  // Attitude only, not part of the flyable budget
+}
+
+// The original single-stage craft: 500 kg dry, 500 kg propellant, 2 kN at 300 s
+export const DEFAULT_DESIGN: SpacecraftDesign = {
+  name: 'Pathfinder',
+  stages: [{
+    name: 'Service module',
+    dryMass: 500,
+    propellant: 500,
+    engines: [{ name: 'Main engine', thrust: 2000, vacuumIsp: seconds(300), seaLevelIsp: seconds(250), count: 1 }]
+  }]
+};
+
+export const SPACECRAFT_DESIGNS: Record<string, SpacecraftDesign> = {
+  pathfinder: DEFAULT_DESIGN,
+  // Kick stage for the big departure burn, then a lander with RCS
+  lunarLander: {
+    name: 'Lunar Lander',
+    stages: [
+      {
+        name: 'Transfer stage',
+        dryMass: 400,
+        propellant: 1600,
+        engines: [{ name: 'Kick motor', thrust: 15000, vacuumIsp: seconds(320), seaLevelIsp: seconds(270), count: 1 }]
+      },
+      {
+        name: 'Lander',
+        dryMass: 350,
+        propellant: 450,
+        engines: [{ name: 'Descent engine', thrust: 1200, vacuumIsp: seconds(310), seaLevelIsp: seconds(260), count: 2 }],
+        rcs: { thrust: 88, isp: seconds(220), propellant: 20 }
+      }
+    ]
+  }
+};
+
+// Propellant tanks, added to a stage's dry mass and propellant
+export interface TankPart {
+  name: string;
+  dryMass: number;           // kg
+  propellant: number;        // kg
+}
+
+// Parts the design editor builds stages from
+export const TANK_PARTS: TankPart[] = [
+  { name: 'Small tank', dryMass: 50, propellant: 400 },
+  { name: 'Medium tank', dryMass: 120, propellant: 1200 },
+  { name: 'Large tank', dryMass: 350, propellant: 4000 }
+];
+
+export const ENGINE_PARTS: EngineDefinition[] = [
+  { name: 'Thruster', thrust: 440, vacuumIsp: seconds(320), seaLevelIsp: seconds(180), count: 1 },
+  { name: 'Main engine', thrust: 2000, vacuumIsp: seconds(300), seaLevelIsp: seconds(250), count: 1 },
+  { name: 'Descent engine', thrust: 1200, vacuumIsp: seconds(310), seaLevelIsp: seconds(260), count: 1 },
+  { name: 'Kick motor', thrust: 15000, vacuumIsp: seconds(320), seaLevelIsp: seconds(270), count: 1 },
+  { name: 'Booster engine', thrust: 900000, vacuumIsp: seconds(311), seaLevelIsp: seconds(282), count: 1 }
+];
+
+export const RCS_PARTS: RcsDefinition[] = [
+  { thrust: 88, isp: seconds(220), propellant: 20 },
+  { thrust: 400, isp: seconds(230), propellant: 80 }
+];
+
+// Total thrust of a stage's engines (N); at sea level each engine loses
+// thrust in proportion to its Isp
+export function stageThrust(stage: StageDefinition, environment: 'vacuum' | 'seaLevel' = 'vacuum'): number {
+  return stage.engines.reduce((total, engine) => total + engine.count * (environment === 'vacuum'
+    ? engine.thrust
+    : engine.thrust * engine.seaLevelIsp / engine.vacuumIsp), 0);
+}
+
+// Combined Isp of engines firing together: ΣF / Σ(F / Isp)
+export function stageIsp(stage: StageDefinition, environment: 'vacuum' | 'seaLevel' = 'vacuum'): Seconds {
+  let thrust = 0;
+  let flow = 0;
+  for (const engine of stage.engines) {
+    const isp = environment === 'vacuum' ? engine.vacuumIsp : engine.seaLevelIsp;
+    const engineThrust = engine.count * engine.thrust * (environment === 'vacuum' ? 1 : engine.seaLevelIsp / engine.vacuumIsp);
+    thrust += engineThrust;
+    if (isp > 0) flow += engineThrust / isp;
+  }
+  return seconds(flow > 0 ? thrust / flow : 0);
+}
+
+// Everything a stage takes with it when jettisoned, full (kg)
+export function stageMass(stage: StageDefinition): number {
+  return stage.dryMass + stage.propellant + (stage.rcs?.propellant ?? 0);
+}
+
+// Mass of the stack from the given stage up (kg)
+export function designMass(design: SpacecraftDesign, fromStage: number = 0): number {
+  return design.stages.slice(fromStage).reduce((total, stage) => total + stageMass(stage), 0);
+}
+
+// Staged Tsiolkovsky budget: each stage from `fromStage` burns its propellant
+// and is jettisoned before the next lights. The first stage may be part
+// spent (propellantLeft).
+export function stageBudgets(design: SpacecraftDesign, fromStage: number = 0, propellantLeft?: number): StageBudget[] {
+  const budgets: StageBudget[] = [];
+  let mass = designMass(design, fromStage);
+  design.stages.slice(fromStage).forEach((stage, i) => {
+    const propellant = i === 0 && propellantLeft !== undefined ? propellantLeft : stage.propellant;
+    if (i === 0) mass -= stage.propellant - propellant;
+    const isp = stageIsp(stage);
+    const thrust = stageThrust(stage);
+    const endMass = mass - propellant;
+    const deltaV = isp > 0 && propellant > 0 ? calculateDeltaV(kilograms(mass), kilograms(endMass), isp) : metersPerSecond(0);
+    const rcsDeltaV = stage.rcs && stage.rcs.propellant > 0
+      ? calculateDeltaV(kilograms(endMass), kilograms(endMass - stage.rcs.propellant), stage.rcs.isp)
+      : metersPerSecond(0);
+    budgets.push({
+      name: stage.name,
+      startMass: mass,
+      endMass,
+      deltaV,
+      burnTime: thrust > 0 ? propellant * isp * STANDARD_GRAVITY / thrust : 0,
+      thrust,
+      rcsDeltaV
+    });
+    mass = endMass - stage.dryMass - (stage.rcs?.propellant ?? 0);
+  });
+  return budgets;
+}
+
+export function totalDeltaV(budgets: StageBudget[]): MetersPerSecond {
+  return metersPerSecond(budgets.reduce((total, budget) => total + budget.deltaV, 0));
+}
+
+// Surface gravity of a body (m/s²)
+export function surfaceGravity(body: CentralBody): number {
+  return body.mu / body.radius ** 2 * 1000;
+}
+
+// Thrust-to-weight ratio of a stack of the given mass at a body's surface
+export function thrustToWeight(thrust: number, mass: number, body: CentralBody): number {
+  return mass > 0 ? thrust / (mass * surfaceGravity(body)) : 0;
+}
+
+// Problems that leave a design unable to fly as intended, worded for the
+// editor. An empty list means the design is flyable.
+export function validateDesign(design: SpacecraftDesign): string[] {
+  const warnings: string[] = [];
+  if (!design.name.trim()) warnings.push('The design needs a name');
+  if (design.stages.length === 0) {
+    warnings.push('The design has no stages');
+    return warnings;
+  }
+  design.stages.forEach((stage, i) => {
+    const label = stage.name.trim() || `Stage ${i + 1}`;
+    if (!(stage.dryMass > 0)) warnings.push(`${label} needs a positive dry mass`);
+    if (!(stage.propellant >= 0)) warnings.push(`${label} has a negative propellant load`);
+    if (stage.propellant > 0 && stage.engines.length === 0) warnings.push(`${label} carries propellant but no engine to burn it`);
+    if (stage.engines.length > 0 && stage.propellant === 0) warnings.push(`${label} has engines but no propellant`);
+    for (const engine of stage.engines) {
+      if (!(engine.thrust > 0) || !(engine.count > 0)) warnings.push(`${label}: ${engine.name} produces no thrust`);
+      if (!(engine.vacuumIsp > 0)) warnings.push(`${label}: ${engine.name} needs a positive Isp`);
+      if (engine.seaLevelIsp > engine.vacuumIsp) warnings.push(`${label}: ${engine.name} has a higher sea-level than vacuum Isp`);
+    }
+    if (stage.rcs && !(stage.rcs.isp > 0 && stage.rcs.thrust > 0)) warnings.push(`${label} has RCS with no thrust or Isp`);
+  });
+  if (design.stages[0].engines.length === 0) {
+    warnings.push(`${design.stages[0].name.trim() || 'The first stage'} burns first but has no engines`);
+  }
+  const last = design.stages[design.stages.length - 1];
+  if (last.engines.length === 0) {
+    warnings.push(`${last.name.trim() || 'The last stage'} has no engines, so the spacecraft cannot maneuver once it is alone`);
+  }
+  if (totalDeltaV(stageBudgets(design)) <= 0) warnings.push('The design has no Δv');
+  return warnings;
+}
@@ -0,0 +1,64 @@
+// Patched-conic sphere-of-influence handling between Earth and the Moon
+
+import { Position3D, Velocity3D } from "./orbitalMechanics";
+import { StateVector } from "./propagator";
+import { addVectors, magnitude, subtractVectors } from "./vectorMath";
+
+export type BodyId = 'earth' | 'moon';
+
+// Bodies are positioned in the Earth-centred frame
+export interface SoiBody {
+  id: BodyId;
+  position: Position3D;
+  velocity: Velocity3D;
+  mass: number;
+}
+
+// Laplace sphere-of-influence radius: r_SOI = a (m / M)^(2/5)
+export function laplaceSoiRadius(semiMajorAxis: number, mass: number, primaryMass: number): number {
+  return semiMajorAxis * Math.pow(mass / primaryMass, 2 / 5);
+}
+
+// SOI radius of the Moon about Earth at the current Earth-Moon distance.
+// Earth is the root body of the simulation, so its SOI is unbounded.
+export function getSoiRadius(body: SoiBody, earth: SoiBody): number {
+  if (body.id === 'earth') return Infinity;
+  const distance = magnitude(subtractVectors(body.position, earth.position));
+  return laplaceSoiRadius(distance, body.mass, earth.mass);
+}
+
+// Express a state relative to one body as a state relative to another
+export function rebaseState(state: StateVector, from: SoiBody, to: SoiBody): StateVector {
+  if (from.id === to.id) return state;
+  return {
+    position: subtractVectors(addVectors(state.position, from.position), to.position),
+    velocity: subtractVectors(addVectors(state.velocity, from.velocity), to.velocity)
+  };
+}
+
+// Decide which body the spacecraft should be centred on. Returns the new
+// primary and the re-based state when the spacecraft crosses an SOI boundary.
+export function resolvePrimary(
+  state: StateVector,
+  primary: BodyId,
+  earth: SoiBody,
+  moon: SoiBody
+): { primary: BodyId; state: StateVector; changed: boolean } {
+  const moonSoi = getSoiRadius(moon, earth);
+
+  if (primary === 'earth') {
+    const distanceToMoon = magnitude(subtractVectors(addVectors(state.position, earth.position), moon.position));
+    if (distanceToMoon < moonSoi) {
+      return { primary: 'moon', state: rebaseState(state, earth, moon), changed: true };
+    }
+  } else if (magnitude(state.position) > moonSoi) {
+    return { primary: 'earth', state: rebaseState(state, moon, earth), changed: true };
+  }
+
+  return { primary, state, changed: false };
+}
+
+// Spacecraft position in the Earth-centred frame used for rendering
+export function getInertialPosition(position: Position3D, primary: BodyId, earth: SoiBody, moon: SoiBody): Position3D {
+  return addVectors(position, primary === 'moon' ? moon.position : earth.position);
+}
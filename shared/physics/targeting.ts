@@ -0,0 +1,52 @@
+// Lambert targeting: the impulsive burn that puts the spacecraft on a
+// transfer arc reaching a chosen point at a chosen time
+
+import { Position3D, Velocity3D } from "./orbitalMechanics";
+import { StateVector } from "./propagator";
+import { LambertOptions, LambertSolution, solveLambert } from "./lambert";
+import { propagateKepler } from "./kepler";
+import { addVectors, magnitude, subtractVectors } from "./vectorMath";
+
+export interface TargetedTransfer {
+  timeOfFlight: number;       // s
+  deltaV: Velocity3D;         // Departure burn, inertial (km/s)
+  // Velocity relative to the target on arrival (km/s); the burn needed to
+  // match it, or the approach speed of a flyby
+  arrivalDeltaV: Velocity3D;
+  solution: LambertSolution;
+}
+
+// Cheapest departure burn from the current state to the target position
+// after timeOfFlight seconds, over every revolution count allowed by the
+// options. Null when no transfer arc exists.
+export function targetTransfer(
+  state: StateVector,
+  target: StateVector,
+  timeOfFlight: number,
+  mu: number,
+  options: LambertOptions = {}
+): TargetedTransfer | null {
+  let best: TargetedTransfer | null = null;
+  for (const solution of solveLambert(state.position, target.position, timeOfFlight, mu, options)) {
+    const deltaV = subtractVectors(solution.departureVelocity, state.velocity);
+    if (!best || magnitude(deltaV) < magnitude(best.deltaV)) {
+      best = {
+        timeOfFlight,
+        deltaV,
+        arrivalDeltaV: subtractVectors(target.velocity, solution.arrivalVelocity),
+        solution
+      };
+    }
+  }
+  return best;
+}
+
+// Points along the two-body transfer arc after the departure burn
+export function transferArc(state: StateVector, transfer: TargetedTransfer, mu: number, numPoints: number = 128): Position3D[] {
+  const departure = { position: state.position, velocity: addVectors(state.velocity, transfer.deltaV) };
+  const points: Position3D[] = [];
+  for (let i = 0; i <= numPoints; i++) {
+    points.push(propagateKepler(departure, mu, transfer.timeOfFlight * i / numPoints).position);
+  }
+  return points;
+}
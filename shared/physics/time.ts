@@ -0,0 +1,128 @@
+// Time systems: UTC, TAI, TT, Julian Date, MJD and mission elapsed time
+//
+// Convention: an "epoch" anywhere in the simulation is a Julian Date in TT.
+// UTC only appears at the edges (calendar input and display).
+
+export const SECONDS_PER_DAY = 86400;
+export const J2000_JD = 2451545.0;        // 2000-01-01 12:00:00 TT
+export const MJD_OFFSET = 2400000.5;
+export const UNIX_EPOCH_JD = 2440587.5;   // 1970-01-01 00:00:00 UTC
+export const TT_MINUS_TAI = 32.184;       // s
+
+// TAI - UTC (s) from the given UTC date onwards
+const LEAP_SECONDS: [number, number, number][] = [
+  [1972, 1, 10], [1972, 7, 11], [1973, 1, 12], [1974, 1, 13], [1975, 1, 14],
+  [1976, 1, 15], [1977, 1, 16], [1978, 1, 17], [1979, 1, 18], [1980, 1, 19],
+  [1981, 7, 20], [1982, 7, 21], [1983, 7, 22], [1985, 7, 23], [1988, 1, 24],
+  [1990, 1, 25], [1991, 1, 26], [1992, 7, 27], [1993, 7, 28], [1994, 7, 29],
+  [1996, 1, 30], [1997, 7, 31], [1999, 1, 32], [2006, 1, 33], [2009, 1, 34],
+  [2012, 7, 35], [2015, 7, 36], [2017, 1, 37]
+];
+
+const LEAP_SECOND_TABLE = LEAP_SECONDS.map(([year, month, offset]) => ({
+  jd: Date.UTC(year, month - 1, 1) / (SECONDS_PER_DAY * 1000) + UNIX_EPOCH_JD,
+  offset
+}));
+
+// TAI - UTC at a UTC Julian Date. Dates before 1972 use the first entry.
+export function taiMinusUtc(jdUtc: number): number {
+  let offset = LEAP_SECOND_TABLE[0].offset;
+  for (const entry of LEAP_SECOND_TABLE) {
+    if (jdUtc >= entry.jd) offset = entry.offset;
+  }
+  return offset;
+}
+
+// Calendar date (UTC) <-> Julian Date (UTC)
+export function dateToJulianDate(date: Date): number {
+  return date.getTime() / (SECONDS_PER_DAY * 1000) + UNIX_EPOCH_JD;
+}
+
+export function julianDateToDate(jdUtc: number): Date {
+  return new Date((jdUtc - UNIX_EPOCH_JD) * SECONDS_PER_DAY * 1000);
+}
+
+export function julianDateToMjd(jd: number): number {
+  return jd - MJD_OFFSET;
+}
+
+export function mjdToJulianDate(mjd: number): number {
+  return mjd + MJD_OFFSET;
+}
+
+export function utcToTai(jdUtc: number): number {
+  return jdUtc + taiMinusUtc(jdUtc) / SECONDS_PER_DAY;
+}
+
+export function taiToUtc(jdTai: number): number {
+  // The offset is looked up with an approximate UTC, exact except within
+  // a few seconds of a leap second
+  return jdTai - taiMinusUtc(jdTai - 37 / SECONDS_PER_DAY) / SECONDS_PER_DAY;
+}
+
+export function taiToTt(jdTai: number): number {
+  return jdTai + TT_MINUS_TAI / SECONDS_PER_DAY;
+}
+
+export function ttToTai(jdTt: number): number {
+  return jdTt - TT_MINUS_TAI / SECONDS_PER_DAY;
+}
+
+export function utcToTt(jdUtc: number): number {
+  return taiToTt(utcToTai(jdUtc));
+}
+
+export function ttToUtc(jdTt: number): number {
+  return taiToUtc(ttToTai(jdTt));
+}
+
+// Calendar date (UTC) <-> epoch (TT)
+export function dateToEpoch(date: Date): number {
+  return utcToTt(dateToJulianDate(date));
+}
+
+export function epochToDate(epoch: number): Date {
+  return julianDateToDate(ttToUtc(epoch));
+}
+
+// Seconds of TT since J2000
+export function secondsSinceJ2000(epoch: number): number {
+  return (epoch - J2000_JD) * SECONDS_PER_DAY;
+}
+
+// Epoch reached after a mission elapsed time (s) from the mission epoch
+export function epochAt(missionEpoch: number, missionElapsedTime: number): number {
+  return missionEpoch + missionElapsedTime / SECONDS_PER_DAY;
+}
+
+// Mission elapsed time (s) of an epoch
+export function missionElapsedTime(missionEpoch: number, epoch: number): number {
+  return (epoch - missionEpoch) * SECONDS_PER_DAY;
+}
+
+// T+DDD:HH:MM:SS
+export function formatMissionElapsedTime(seconds: number): string {
+  const sign = seconds < 0 ? '-' : '+';
+  const total = Math.floor(Math.abs(seconds));
+  const days = Math.floor(total / SECONDS_PER_DAY);
+  const hours = Math.floor((total % SECONDS_PER_DAY) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+  return `T${sign}${pad(days, 3)}:${pad(hours)}:${pad(minutes)}:${pad(secs)}`;
+}
+
+// Duration as HH:MM:SS, with a day count when longer than a day
+export function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds)) return '∞';
+  const total = Math.round(Math.abs(seconds));
+  const days = Math.floor(total / SECONDS_PER_DAY);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const clock = `${pad(Math.floor((total % SECONDS_PER_DAY) / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+  return `${seconds < 0 ? '-' : ''}${days > 0 ? `${days}d ` : ''}${clock}`;
+}
+
+// ISO 8601 UTC string of an epoch
+export function formatEpoch(epoch: number): string {
+  return epochToDate(epoch).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
@@ -0,0 +1,34 @@
+// Surface contact: touchdown speed and whether the spacecraft survived it
+
+import { Position3D, Velocity3D } from "./orbitalMechanics";
+import { EARTH_ROTATION_RATE } from "./atmosphere";
+import { BodyId } from "./sphereOfInfluence";
+import { magnitude } from "./vectorMath";
+import { kmPerSecond } from "./units";
+
+export type TouchdownOutcome = 'landed' | 'hardLanding' | 'crash';
+
+export const MOON_ROTATION_RATE = 2.6617e-6; // rad/s, synchronous with the orbit
+
+// Touchdown speed limits (km/s): gear rated for 3 m/s, structure for 10 m/s
+export const SAFE_LANDING_SPEED = kmPerSecond(0.003);
+export const HARD_LANDING_SPEED = kmPerSecond(0.01);
+
+export function rotationRate(body: BodyId): number {
+  return body === 'moon' ? MOON_ROTATION_RATE : EARTH_ROTATION_RATE;
+}
+
+// Speed relative to the rotating surface below, v - ω × r with ω along +z
+export function surfaceSpeed(position: Position3D, velocity: Velocity3D, body: BodyId): number {
+  const omega = rotationRate(body);
+  return magnitude({
+    x: velocity.x + omega * position.y,
+    y: velocity.y - omega * position.x,
+    z: velocity.z
+  });
+}
+
+export function classifyTouchdown(speed: number): TouchdownOutcome {
+  if (speed <= SAFE_LANDING_SPEED) return 'landed';
+  return speed <= HARD_LANDING_SPEED ? 'hardLanding' : 'crash';
+}
@@ -0,0 +1,185 @@
+// Orbit transfer planning: Hohmann, bi-elliptic and plane-change strategies
+// between the current orbit and a target orbit, compared by Δv, time and fuel
+//
+// The current orbit is treated as circular at its semi-major axis and every
+// burn happens at an apsis of the transfer, so the burns are tangential
+// except where they also turn the orbit plane. The first burn is placed at
+// the next node of the current orbit; apse-to-apse arcs then put every later
+// burn on the line of nodes too, where a plane change is possible.
+
+import { CentralBody, OrbitalElements, Position3D, calculateHohmannTransfer, wrapAngle } from "./orbitalMechanics";
+import { timeToTrueAnomaly } from "./maneuverNodes";
+import { calculateFuelConsumption } from "./spacecraft";
+import { Seconds, gravitationalParameter, kilograms, km, kmPerSecond, toMetersPerSecond } from "./units";
+
+export type TransferStrategy = 'hohmannThenPlaneChange' | 'planeChangeThenHohmann' | 'hohmannCombined' | 'biElliptic';
+
+export interface TargetOrbit {
+  altitude: number;      // Periapsis altitude (km)
+  inclination: number;   // rad
+  eccentricity: number;
+}
+
+export interface PlannedBurn {
+  offset: number;        // s from now
+  deltaV: Position3D;    // km/s in the local RTN frame (radial, transverse, normal)
+  label: string;
+}
+
+export interface TransferOption {
+  strategy: TransferStrategy;
+  label: string;
+  burns: PlannedBurn[];
+  totalDeltaV: number;   // km/s
+  transferTime: number;  // s from the first burn to the last
+  fuel: number;          // kg, burning from the given mass
+}
+
+export interface NodeCrossing {
+  node: 'ascending' | 'descending';
+  time: number;          // s from now
+}
+
+export const STRATEGY_LABELS: Record<TransferStrategy, string> = {
+  hohmannThenPlaneChange: 'Hohmann, then plane change',
+  planeChangeThenHohmann: 'Plane change, then Hohmann',
+  hohmannCombined: 'Hohmann with combined plane change',
+  biElliptic: 'Bi-elliptic with plane change at apoapsis'
+};
+
+// Speed at an apsis r of an orbit whose other apsis is at rOther (circular when equal)
+function apsisSpeed(mu: number, r: number, rOther: number): number {
+  return Math.sqrt(2 * mu * rOther / (r * (r + rOther)));
+}
+
+// Half the period of the ellipse between two apsides
+function halfPeriod(mu: number, r1: number, r2: number): number {
+  return Math.PI * Math.sqrt(((r1 + r2) / 2) ** 3 / mu);
+}
+
+// Burn at a node from speed vBefore to vAfter while turning the plane by
+// deltaI; at the ascending node +N raises the inclination, at the descending
+// node -N does
+function nodeBurn(vBefore: number, vAfter: number, deltaI: number, node: NodeCrossing['node']): Position3D {
+  const sign = node === 'ascending' ? 1 : -1;
+  return { x: 0, y: vAfter * Math.cos(deltaI) - vBefore, z: sign * vAfter * Math.sin(deltaI) };
+}
+
+function opposite(node: NodeCrossing['node']): NodeCrossing['node'] {
+  return node === 'ascending' ? 'descending' : 'ascending';
+}
+
+// Next equator crossing of the current orbit. An equatorial orbit has no
+// nodes, so the first burn happens now.
+export function nextNode(elements: OrbitalElements, mu: number): NodeCrossing {
+  const { eccentricity: e, inclination, argumentOfPeriapsis } = elements;
+  if (inclination < 1e-6 || e >= 1) return { node: 'ascending', time: 0 };
+
+  const ascending = timeToTrueAnomaly(elements, wrapAngle(-argumentOfPeriapsis), mu) ?? 0;
+  const descending = timeToTrueAnomaly(elements, wrapAngle(Math.PI - argumentOfPeriapsis), mu) ?? 0;
+  return ascending <= descending
+    ? { node: 'ascending', time: ascending }
+    : { node: 'descending', time: descending };
+}
+
+// Fuel for a burn sequence from the starting mass, burn by burn
+function sequenceFuel(burns: PlannedBurn[], mass: number, specificImpulse: Seconds): number {
+  let remaining = mass;
+  for (const burn of burns) {
+    const { x, y, z } = burn.deltaV;
+    const deltaV = toMetersPerSecond(kmPerSecond(Math.sqrt(x * x + y * y + z * z)));
+    remaining -= calculateFuelConsumption(deltaV, kilograms(remaining), specificImpulse);
+  }
+  return mass - remaining;
+}
+
+// Burns that turn out empty (no plane change, or already at the target
+// radius) are dropped
+function option(strategy: TransferStrategy, planned: PlannedBurn[], mass: number, specificImpulse: Seconds): TransferOption {
+  const burns = planned.filter(({ deltaV: { x, y, z } }) => x * x + y * y + z * z > 1e-18);
+  if (burns.length === 0) burns.push(planned[0]);
+  return {
+    strategy,
+    label: STRATEGY_LABELS[strategy],
+    burns,
+    totalDeltaV: burns.reduce((total, { deltaV: { x, y, z } }) => total + Math.sqrt(x * x + y * y + z * z), 0),
+    transferTime: burns[burns.length - 1].offset - burns[0].offset,
+    fuel: sequenceFuel(burns, mass, specificImpulse)
+  };
+}
+
+// Every strategy from the current orbit to the target, fuelled from the
+// given mass at the given Isp. The bi-elliptic option needs an intermediate
+// apoapsis radius beyond both orbits.
+export function compareTransfers(
+  elements: OrbitalElements,
+  body: CentralBody,
+  target: TargetOrbit,
+  mass: number,
+  specificImpulse: Seconds,
+  options: { intermediateRadius?: number } = {}
+): TransferOption[] {
+  const { mu } = body;
+  const departure = nextNode(elements, mu);
+  const t0 = departure.time;
+  const first = departure.node;
+  const second = opposite(first);
+
+  // Current orbit as circular; the transfer arrives at the target apsis
+  // farther from it and sets the other apsis there
+  const r1 = elements.semiMajorAxis;
+  const targetPeriapsis = body.radius + target.altitude;
+  const targetApoapsis = targetPeriapsis * (1 + target.eccentricity) / (1 - target.eccentricity);
+  const [r2, rOther] = Math.abs(targetApoapsis - r1) >= Math.abs(targetPeriapsis - r1)
+    ? [targetApoapsis, targetPeriapsis]
+    : [targetPeriapsis, targetApoapsis];
+  const deltaI = target.inclination - elements.inclination;
+
+  const v1 = Math.sqrt(mu / r1);
+  const { deltaV1 } = calculateHohmannTransfer(km(r1), km(r2), gravitationalParameter(mu));
+  const transferArrival = apsisSpeed(mu, r2, r1);
+  const finalAtR2 = apsisSpeed(mu, r2, rOther);
+  const tTransfer = halfPeriod(mu, r1, r2);
+  const tangential = (dv: number) => ({ x: 0, y: dv, z: 0 });
+
+  const results: TransferOption[] = [
+    option('hohmannThenPlaneChange', [
+      { offset: t0, deltaV: tangential(deltaV1), label: 'Transfer injection' },
+      { offset: t0 + tTransfer, deltaV: nodeBurn(transferArrival, finalAtR2, 0, second), label: 'Orbit insertion' },
+      {
+        offset: t0 + tTransfer + halfPeriod(mu, r2, rOther),
+        deltaV: nodeBurn(apsisSpeed(mu, rOther, r2), apsisSpeed(mu, rOther, r2), deltaI, first),
+        label: 'Plane change'
+      }
+    ], mass, specificImpulse),
+    option('planeChangeThenHohmann', [
+      { offset: t0, deltaV: nodeBurn(v1, v1, deltaI, first), label: 'Plane change' },
+      { offset: t0 + halfPeriod(mu, r1, r1), deltaV: tangential(deltaV1), label: 'Transfer injection' },
+      { offset: t0 + halfPeriod(mu, r1, r1) + tTransfer, deltaV: nodeBurn(transferArrival, finalAtR2, 0, first), label: 'Orbit insertion' }
+    ], mass, specificImpulse),
+    option('hohmannCombined', [
+      { offset: t0, deltaV: tangential(deltaV1), label: 'Transfer injection' },
+      { offset: t0 + tTransfer, deltaV: nodeBurn(transferArrival, finalAtR2, deltaI, second), label: 'Insertion and plane change' }
+    ], mass, specificImpulse)
+  ];
+
+  const rb = options.intermediateRadius;
+  if (rb !== undefined && rb >= Math.max(r1, r2)) {
+    const tOut = halfPeriod(mu, r1, rb);
+    results.push(option('biElliptic', [
+      { offset: t0, deltaV: tangential(apsisSpeed(mu, r1, rb) - v1), label: 'Injection to intermediate orbit' },
+      {
+        offset: t0 + tOut,
+        deltaV: nodeBurn(apsisSpeed(mu, rb, r1), apsisSpeed(mu, rb, r2), deltaI, second),
+        label: 'Apoapsis burn and plane change'
+      },
+      {
+        offset: t0 + tOut + halfPeriod(mu, rb, r2),
+        deltaV: nodeBurn(apsisSpeed(mu, r2, rb), finalAtR2, 0, first),
+        label: 'Orbit insertion'
+      }
+    ], mass, specificImpulse));
+  }
+
+  return results;
+}
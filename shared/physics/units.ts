@@ -0,0 +1,50 @@
+// Units and scale: all physics runs in km, km/s, s and kg. Render units only
+// appear at the very end, through a single RenderScale transform.
+
+import { Position3D } from "./orbitalMechanics";
+
+// Branded numbers: a plain number must be tagged explicitly before it can be
+// passed where a quantity is expected, so km and m/s cannot be mixed silently.
+declare const unitBrand: unique symbol;
+export type Quantity<Unit extends string> = number & { readonly [unitBrand]: Unit };
+
+export type Kilometers = Quantity<'km'>;
+export type KilometersPerSecond = Quantity<'km/s'>;
+export type MetersPerSecond = Quantity<'m/s'>;
+export type Seconds = Quantity<'s'>;
+export type Kilograms = Quantity<'kg'>;
+export type GravitationalParameter = Quantity<'km³/s²'>;
+
+export const km = (value: number) => value as Kilometers;
+export const kmPerSecond = (value: number) => value as KilometersPerSecond;
+export const metersPerSecond = (value: number) => value as MetersPerSecond;
+export const seconds = (value: number) => value as Seconds;
+export const kilograms = (value: number) => value as Kilograms;
+export const gravitationalParameter = (value: number) => value as GravitationalParameter;
+
+export function toKmPerSecond(speed: MetersPerSecond): KilometersPerSecond {
+  return kmPerSecond(speed / 1000);
+}
+
+export function toMetersPerSecond(speed: KilometersPerSecond): MetersPerSecond {
+  return metersPerSecond(speed * 1000);
+}
+
+// Physics (km) -> scene (render units)
+export interface RenderScale {
+  kmPerUnit: number;
+}
+
+export const DEFAULT_RENDER_SCALE: RenderScale = { kmPerUnit: 1000 };
+
+export function toRenderLength(length: number, scale: RenderScale): number {
+  return length / scale.kmPerUnit;
+}
+
+export function toRenderPosition(position: Position3D, scale: RenderScale): Position3D {
+  return {
+    x: position.x / scale.kmPerUnit,
+    y: position.y / scale.kmPerUnit,
+    z: position.z / scale.kmPerUnit
+  };
+}
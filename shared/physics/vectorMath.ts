@@ -0,0 +1,36 @@
+import { Position3D } from "./orbitalMechanics";
+
+// Small vector helpers shared by the physics modules
+
+export function addVectors(a: Position3D, b: Position3D): Position3D {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+export function subtractVectors(a: Position3D, b: Position3D): Position3D {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+export function scaleVector(v: Position3D, s: number): Position3D {
+  return { x: v.x * s, y: v.y * s, z: v.z * s };
+}
+
+export function dot(a: Position3D, b: Position3D): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+export function cross(a: Position3D, b: Position3D): Position3D {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+  };
+}
+
+export function magnitude(v: Position3D): number {
+  return Math.sqrt(v.x ** 2 + v.y ** 2 + v.z ** 2);
+}
+
+export function normalize(v: Position3D): Position3D {
+  const m = magnitude(v);
+  return m === 0 ? { x: 0, y: 0, z: 0 } : scaleVector(v, 1 / m);
+}
@@ -0,0 +1,275 @@
+// Mission scenarios: a scripted run of the SimulationEngine from initial
+// elements through a burn schedule, checked against objectives
+
+import { z } from "zod";
+import { EARTH_RADIUS, Position3D, trueToMeanAnomaly } from "./physics/orbitalMechanics";
+import { dateToEpoch } from "./physics/time";
+import { FiniteBurn } from "./physics/finiteBurn";
+import { normalize } from "./physics/vectorMath";
+import { metersPerSecond, seconds } from "./physics/units";
+import {
+  DEFAULT_EPOCH,
+  MissionEvent,
+  SimulationEngine,
+  SimulationSettings,
+  createSpacecraft,
+  initialOrbitalElements,
+  isMissionFailure
+} from "./simulationEngine";
+import { DEFAULT_DESIGN, SPACECRAFT_DESIGNS } from "./physics/spacecraftDesign";
+
+const DEG = Math.PI / 180;
+
+export const BURN_DIRECTIONS = ['prograde', 'retrograde', 'normal', 'antinormal', 'radial', 'antiradial'] as const;
+export type BurnDirection = typeof BURN_DIRECTIONS[number];
+
+const vectorSchema = z.object({ x: z.number(), y: z.number(), z: z.number() });
+
+const ispSchema = z.number().positive().transform(seconds);
+
+// A spacecraft design: stages from the bottom of the stack up, kg, N and s
+export const spacecraftDesignSchema = z.object({
+  name: z.string().default('Custom design'),
+  stages: z.array(z.object({
+    name: z.string(),
+    dryMass: z.number().positive(),
+    propellant: z.number().min(0),
+    engines: z.array(z.object({
+      name: z.string(),
+      thrust: z.number().positive(),
+      vacuumIsp: ispSchema,
+      seaLevelIsp: ispSchema,
+      count: z.number().int().positive().default(1)
+    })).default([]),
+    rcs: z.object({
+      thrust: z.number().positive(),
+      isp: ispSchema,
+      propellant: z.number().min(0)
+    }).optional()
+  })).min(1)
+}).refine((design) => design.stages[0].engines.length > 0, {
+  message: 'The first stage needs at least one engine',
+  path: ['stages', 0, 'engines']
+});
+
+export const scenarioSchema = z.object({
+  name: z.string().default('Unnamed scenario'),
+  epoch: z.string().datetime().optional(),       // UTC, ISO 8601; defaults to the game's epoch
+  // Initial orbit about Earth: km and degrees
+  initialElements: z.object({
+    semiMajorAxis: z.number().positive(),
+    eccentricity: z.number().min(0).lt(1),
+    inclination: z.number().default(0),
+    longitudeOfAscendingNode: z.number().default(0),
+    argumentOfPeriapsis: z.number().default(0),
+    trueAnomaly: z.number().default(0)
+  }).refine((elements) => elements.semiMajorAxis * (1 - elements.eccentricity) > EARTH_RADIUS, {
+    message: 'Periapsis is below the Earth\'s surface'
+  }).optional(),
+  // A built-in design by key, or a full definition; defaults to the
+  // single-stage Pathfinder
+  design: z.union([
+    z.string().refine((key) => key in SPACECRAFT_DESIGNS, { message: 'Unknown spacecraft design' }),
+    spacecraftDesignSchema
+  ]).optional(),
+  duration: z.number().positive(),                // s
+  step: z.number().positive().default(1),         // Physics step (s)
+  outputInterval: z.number().positive().default(60), // Trajectory sample spacing (s)
+  hazardSeed: z.number().int().default(1),
+  renderScale: z.object({ kmPerUnit: z.number().positive() }).optional(), // Scene scale in the game
+  settings: z.object({
+    integrator: z.enum(['rk4', 'rk45', 'leapfrog', 'kepler']).optional(),
+    zonalDegree: z.number().int().min(0).max(4).optional(),
+    moonEphemeris: z.enum(['meeus', 'circular']).optional(),
+    atmosphere: z.enum(['none', 'exponential', 'solarFlux']).optional(),
+    solarFlux: z.number().positive().optional(),
+    solarGravity: z.boolean().optional(),
+    solarRadiationPressure: z.boolean().optional(),
+    reentryAltitude: z.number().optional()
+  }).default({}),
+  // Finite burns: ignition time (s after start), Δv (m/s), named direction in
+  // the local orbital frame or an inertial vector
+  burns: z.array(z.object({
+    time: z.number().min(0),
+    deltaV: z.number().positive(),
+    direction: z.union([z.enum(BURN_DIRECTIONS), vectorSchema])
+  })).default([]),
+  jettison: z.array(z.number().min(0)).default([]), // Stage separation times (s after start)
+  objectives: z.object({
+    reachMoon: z.boolean().optional(),            // Enter the Moon's sphere of influence
+    minAltitude: z.number().optional(),           // Final altitude bounds (km)
+    maxAltitude: z.number().optional(),
+    minFuel: z.number().optional(),               // kg left at the end
+    minScore: z.number().optional(),
+    survive: z.boolean().default(true)            // No reentry or crash; landings count as surviving
+  }).default({})
+});
+
+export type Scenario = z.infer<typeof scenarioSchema>;
+export type ScenarioBurn = Scenario['burns'][number];
+
+export interface TrajectoryPoint {
+  time: number;       // s
+  epoch: number;      // Julian Date (TT)
+  primary: string;
+  x: number; y: number; z: number;     // km, relative to the primary
+  vx: number; vy: number; vz: number;  // km/s
+  altitude: number;   // km
+  mass: number;       // kg
+  fuel: number;       // kg
+}
+
+export interface ObjectiveResult {
+  objective: string;
+  met: boolean;
+  detail: string;
+}
+
+export interface ScenarioResult {
+  name: string;
+  trajectory: TrajectoryPoint[];
+  events: MissionEvent[];
+  score: number;
+  objectives: ObjectiveResult[];
+  success: boolean;
+}
+
+// Thrust direction of a scenario burn and the frame it is held in: named
+// directions follow the orbit through the burn, vectors stay inertial
+export function burnDirection(direction: ScenarioBurn['direction']): { direction: Position3D; frame: FiniteBurn['frame'] } {
+  if (typeof direction !== 'string') return { direction: normalize(direction), frame: 'inertial' };
+  switch (direction) {
+    case 'prograde': return { direction: { x: 1, y: 0, z: 0 }, frame: 'vnb' };
+    case 'retrograde': return { direction: { x: -1, y: 0, z: 0 }, frame: 'vnb' };
+    case 'normal': return { direction: { x: 0, y: 1, z: 0 }, frame: 'vnb' };
+    case 'antinormal': return { direction: { x: 0, y: -1, z: 0 }, frame: 'vnb' };
+    case 'radial': return { direction: { x: 1, y: 0, z: 0 }, frame: 'rtn' };
+    case 'antiradial': return { direction: { x: -1, y: 0, z: 0 }, frame: 'rtn' };
+  }
+}
+
+export function createScenarioEngine(scenario: Scenario): SimulationEngine {
+  const missionEpoch = scenario.epoch ? dateToEpoch(new Date(scenario.epoch)) : DEFAULT_EPOCH;
+  const { atmosphere, solarFlux, ...settings } = scenario.settings;
+  const engineSettings: Partial<SimulationSettings> = {
+    ...settings,
+    missionEpoch,
+    hazardSeed: scenario.hazardSeed
+  };
+  if (atmosphere) engineSettings.atmosphere = { model: atmosphere, solarFlux };
+
+  const design = typeof scenario.design === 'string'
+    ? SPACECRAFT_DESIGNS[scenario.design]
+    : scenario.design ?? DEFAULT_DESIGN;
+  const elements = scenario.initialElements;
+  const spacecraft = elements
+    ? createSpacecraft({
+      semiMajorAxis: elements.semiMajorAxis,
+      eccentricity: elements.eccentricity,
+      inclination: elements.inclination * DEG,
+      longitudeOfAscendingNode: elements.longitudeOfAscendingNode * DEG,
+      argumentOfPeriapsis: elements.argumentOfPeriapsis * DEG,
+      trueAnomaly: elements.trueAnomaly * DEG,
+      meanAnomaly: trueToMeanAnomaly(elements.trueAnomaly * DEG, elements.eccentricity).meanAnomaly,
+      altitude: elements.semiMajorAxis - EARTH_RADIUS,
+      epoch: missionEpoch
+    }, design)
+    : createSpacecraft(initialOrbitalElements(missionEpoch), design);
+  return new SimulationEngine(engineSettings, spacecraft);
+}
+
+function trajectoryPoint(engine: SimulationEngine): TrajectoryPoint {
+  const { primary, position, velocity, orbitalElements, mass, fuel } = engine.spacecraft;
+  return {
+    time: engine.gameTime,
+    epoch: engine.epoch,
+    primary,
+    x: position.x, y: position.y, z: position.z,
+    vx: velocity.x, vy: velocity.y, vz: velocity.z,
+    altitude: orbitalElements.altitude,
+    mass,
+    fuel
+  };
+}
+
+function evaluateObjectives(scenario: Scenario, engine: SimulationEngine, reachedMoon: boolean): ObjectiveResult[] {
+  const { objectives } = scenario;
+  const { altitude } = engine.spacecraft.orbitalElements;
+  const results: ObjectiveResult[] = [];
+
+  if (objectives.survive) {
+    results.push({ objective: 'survive', met: !isMissionFailure(engine.endReason), detail: engine.endReason ?? 'mission still running' });
+  }
+  if (objectives.reachMoon !== undefined) {
+    results.push({ objective: 'reachMoon', met: reachedMoon === objectives.reachMoon, detail: reachedMoon ? 'entered lunar SOI' : 'never entered lunar SOI' });
+  }
+  if (objectives.minAltitude !== undefined) {
+    results.push({ objective: 'minAltitude', met: altitude >= objectives.minAltitude, detail: `final altitude ${altitude.toFixed(1)} km` });
+  }
+  if (objectives.maxAltitude !== undefined) {
+    results.push({ objective: 'maxAltitude', met: altitude <= objectives.maxAltitude, detail: `final altitude ${altitude.toFixed(1)} km` });
+  }
+  if (objectives.minFuel !== undefined) {
+    results.push({ objective: 'minFuel', met: engine.spacecraft.fuel >= objectives.minFuel, detail: `${engine.spacecraft.fuel.toFixed(1)} kg left` });
+  }
+  if (objectives.minScore !== undefined) {
+    results.push({ objective: 'minScore', met: engine.score >= objectives.minScore, detail: `score ${engine.score.toFixed(0)}` });
+  }
+  return results;
+}
+
+// The scenario's stage separations and burns, carried out on the engine as
+// they come due. Called before each step, by the CLI and by the game when it
+// flies a loaded scenario.
+export function scenarioTimeline(scenario: Scenario): (engine: SimulationEngine) => void {
+  const burns = [...scenario.burns].sort((a, b) => a.time - b.time);
+  const separations = [...scenario.jettison].sort((a, b) => a - b);
+  let nextBurn = 0;
+  let nextSeparation = 0;
+
+  return (engine) => {
+    while (nextSeparation < separations.length && separations[nextSeparation] <= engine.gameTime) {
+      nextSeparation++;
+      engine.jettison();
+    }
+    // Burns use the same finite-burn model as the game's controls. A burn
+    // that comes due while the engine is still running waits for it.
+    while (nextBurn < burns.length && burns[nextBurn].time <= engine.gameTime && !engine.activeBurn) {
+      const burn = burns[nextBurn++];
+      const { direction, frame } = burnDirection(burn.direction);
+      const label = `Burn ${nextBurn} (${typeof burn.direction === 'string' ? burn.direction : 'inertial'})`;
+      if (!engine.startBurn(direction, frame, metersPerSecond(burn.deltaV), label)) {
+        engine.addEvent({ type: 'burn', description: `${label} skipped: no thrust or propellant` });
+      }
+    }
+  };
+}
+
+// Run a scenario to the end of its duration (or until the mission ends)
+export function runScenario(scenario: Scenario): ScenarioResult {
+  const engine = createScenarioEngine(scenario);
+  const timeline = scenarioTimeline(scenario);
+  const trajectory: TrajectoryPoint[] = [trajectoryPoint(engine)];
+  let nextSample = scenario.outputInterval;
+  let reachedMoon = engine.spacecraft.primary === 'moon';
+
+  while (engine.gameTime < scenario.duration && !engine.ended) {
+    timeline(engine);
+    engine.step(Math.min(scenario.step, scenario.duration - engine.gameTime));
+    reachedMoon ||= engine.spacecraft.primary === 'moon';
+    if (engine.gameTime >= nextSample || engine.gameTime >= scenario.duration || engine.ended) {
+      trajectory.push(trajectoryPoint(engine));
+      nextSample = (Math.floor(engine.gameTime / scenario.outputInterval) + 1) * scenario.outputInterval;
+    }
+  }
+
+  const objectives = evaluateObjectives(scenario, engine, reachedMoon);
+  return {
+    name: scenario.name,
+    trajectory,
+    events: engine.missionEvents,
+    score: engine.score,
+    objectives,
+    success: objectives.every((objective) => objective.met)
+  };
+}
@@ -0,0 +1,667 @@
+// Headless mission simulation: spacecraft, bodies, hazards and the event log,
+// advanced in fixed steps. Has no browser or React dependencies, so the same
+// engine drives the game, the server and command-line runs.
+
+import {
+  Position3D,
+  Velocity3D,
+  OrbitalElements,
+  EARTH_RADIUS,
+  MOON_RADIUS,
+  MU_EARTH,
+  MU_MOON,
+  MotionOptions,
+  PropagationMethod,
+  orbitalElementsToCartesian,
+  updateOrbitalMotion
+} from "./physics/orbitalMechanics";
+import { Hazard, generateRandomHazards, perturbationForce, perturbationLabel, spawnPerturbation, updateHazards } from "./physics/hazards";
+import { BodyId, rebaseState } from "./physics/sphereOfInfluence";
+import { ReferencePoints } from "./physics/frames";
+import { ManeuverNode } from "./physics/maneuverNodes";
+import { FiniteBurn, burnDeltaV, burnDuration, burnMassAt, massFlowRate, thrustForce } from "./physics/finiteBurn";
+import { magnitude, subtractVectors } from "./physics/vectorMath";
+import { MoonEphemerisMode, moonState, sunPosition } from "./physics/ephemeris";
+import { dateToEpoch, epochAt } from "./physics/time";
+import { J2_EARTH, J2_MOON, J3_EARTH, J4_EARTH } from "./physics/perturbations";
+import { AtmosphereOptions, DEFAULT_ATMOSPHERE, DEFAULT_REENTRY_ALTITUDE } from "./physics/atmosphere";
+import { StateVector } from "./physics/propagator";
+import { BurnResult, applyBurn } from "./physics/spacecraft";
+import { DEFAULT_DESIGN, SpacecraftDesign, StageDefinition, designMass, stageIsp, stageThrust } from "./physics/spacecraftDesign";
+import { MetersPerSecond, Seconds, kmPerSecond, toMetersPerSecond } from "./physics/units";
+import { SeededRandom, createRandom } from "./physics/random";
+import { TouchdownOutcome, classifyTouchdown, surfaceSpeed } from "./physics/touchdown";
+import { TargetedTransfer, targetTransfer, transferArc } from "./physics/targeting";
+import {
+  EventDetector,
+  TrajectorySample,
+  altitudeDetector,
+  apsisDetectors,
+  detectEvents,
+  eclipseDetectors,
+  impactDetector,
+  nodeDetectors,
+  soiDetectors
+} from "./physics/events";
+
+export interface CelestialBody {
+  id: BodyId;
+  position: Position3D; // Earth-centred frame
+  velocity: Velocity3D;
+  radius: number;
+  mass: number;
+  mu: number; // Standard gravitational parameter
+  j2?: number; // Zonal harmonics (oblateness)
+  j3?: number;
+  j4?: number;
+}
+
+export interface Spacecraft {
+  primary: BodyId;       // Body the state vector and elements are relative to
+  position: Position3D;
+  velocity: Velocity3D;
+  mass: number;
+  fuel: number;
+  maxFuel: number;
+  maxMass: number;
+  orbitalElements: OrbitalElements;
+  isBurning: boolean;
+  design: SpacecraftDesign;
+  stage: number;            // Active stage, an index into design.stages
+  thrust: number;           // Active stage's vacuum thrust (N)
+  specificImpulse: Seconds; // ... and its engines' combined vacuum Isp
+  dragCoefficient: number;  // Cd
+  dragArea: number;         // Cross-section facing the flow (m²)
+  srpArea: number;          // Sunlit cross-section (m²)
+  reflectivity: number;     // Cr, 1 (absorbing) to 2 (reflecting)
+}
+
+export interface MissionEvent {
+  id: number;     // Position in the mission's event log
+  time: number;   // Mission elapsed time (s)
+  epoch: number;  // Julian Date (TT)
+  type: 'burn' | 'hazard' | 'milestone' | 'orbit';
+  description: string;
+  deltaV?: number;
+}
+
+// Why a mission stopped. Landings end the mission without failing it.
+export type MissionEndReason = 'reentry' | TouchdownOutcome;
+
+export function isMissionFailure(reason: MissionEndReason | null): boolean {
+  return reason === 'reentry' || reason === 'crash';
+}
+
+// Force models and environment of a run
+export interface SimulationSettings {
+  missionEpoch: number;             // Julian Date (TT) at gameTime = 0
+  moonEphemeris: MoonEphemerisMode;
+  integrator: PropagationMethod;
+  zonalDegree: number;              // 0 = point-mass gravity, 2-4 = up to J2-J4
+  atmosphere: AtmosphereOptions;
+  reentryAltitude: number;          // km; dropping below ends the mission
+  solarGravity: boolean;            // Sun third-body perturbation
+  solarRadiationPressure: boolean;
+  hazardSeed: number;               // Seed of the hazard generator
+}
+
+// A maneuver node queued on the engine. The engine burns along the node's
+// Δv, held in its local frame, for a span centred on the node time.
+export interface ScheduledBurn extends ManeuverNode {
+  id: number;
+  label: string;
+}
+
+// What the targeting tool aims at: the Moon, or a fixed Earth-centred point (km)
+export type TransferTarget = { kind: 'moon' } | { kind: 'point'; position: Position3D };
+
+// A Lambert transfer from the spacecraft's state at departureTime, solved
+// about its primary; positions are relative to that primary
+export interface TransferPlan extends TargetedTransfer {
+  target: TransferTarget;
+  primary: BodyId;
+  departureTime: number;        // Mission elapsed time (s)
+  arrivalTime: number;
+  maxRevolutions: number;
+  targetPosition: Position3D;   // At arrival
+  arc: Position3D[];
+  lowestAltitude: number;       // km above the primary along the arc
+}
+
+// Complete engine state; restoring it reproduces the run exactly
+export interface SimulationSnapshot {
+  settings: SimulationSettings;
+  gameTime: number;
+  spacecraft: Spacecraft;
+  earth: CelestialBody;
+  moon: CelestialBody;
+  hazards: Hazard[];
+  missionEvents: MissionEvent[];
+  scheduledBurns: ScheduledBurn[];
+  activeBurn: FiniteBurn | null;
+  score: number;
+  ended: boolean;
+  endReason: MissionEndReason | null;
+  randomState: number;
+}
+
+export const DEFAULT_EPOCH = dateToEpoch(new Date(Date.UTC(2025, 0, 1)));
+const INITIAL_HAZARD_COUNT = 5;
+const LOW_FUEL = 100; // kg
+
+export const DEFAULT_SETTINGS: SimulationSettings = {
+  missionEpoch: DEFAULT_EPOCH,
+  moonEphemeris: 'meeus',
+  integrator: 'rk4',
+  zonalDegree: 2,
+  atmosphere: DEFAULT_ATMOSPHERE,
+  reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+  solarGravity: true,
+  solarRadiationPressure: true,
+  hazardSeed: 1
+};
+
+// Initial spacecraft in Low Earth Orbit
+// All physics state is in km, km/s and kg; the scene scales it for rendering
+const spacecraftAltitude = 300; // km
+
+export function initialOrbitalElements(epoch: number): OrbitalElements {
+  return {
+    semiMajorAxis: EARTH_RADIUS + spacecraftAltitude,
+    eccentricity: 0.01,
+    inclination: 0.1, // ~6 degrees
+    longitudeOfAscendingNode: 0,
+    argumentOfPeriapsis: 0,
+    trueAnomaly: 0,
+    meanAnomaly: 0,
+    altitude: spacecraftAltitude,
+    epoch
+  };
+}
+
+// Spacecraft on the given elements around Earth, fully fuelled with its
+// bottom stage active. The propagator integrates position/velocity directly,
+// so the state vector is derived from the elements.
+export function createSpacecraft(elements: OrbitalElements, design: SpacecraftDesign = DEFAULT_DESIGN): Spacecraft {
+  const { position, velocity } = orbitalElementsToCartesian(elements, MU_EARTH);
+  const [first] = design.stages;
+  return {
+    primary: 'earth',
+    position,
+    velocity,
+    mass: designMass(design), // kg
+    fuel: first.propellant, // kg
+    maxFuel: first.propellant,
+    maxMass: designMass(design),
+    orbitalElements: elements,
+    isBurning: false,
+    design,
+    stage: 0,
+    thrust: stageThrust(first),
+    specificImpulse: stageIsp(first),
+    dragCoefficient: 2.2,
+    dragArea: 10, // m²
+    srpArea: 10, // m²
+    reflectivity: 1.3
+  };
+}
+
+export const EARTH: CelestialBody = {
+  id: 'earth',
+  position: { x: 0, y: 0, z: 0 },
+  velocity: { x: 0, y: 0, z: 0 },
+  radius: EARTH_RADIUS,
+  mass: 5.972e24,
+  mu: MU_EARTH,
+  j2: J2_EARTH,
+  j3: J3_EARTH,
+  j4: J4_EARTH
+};
+
+// Moon state (km, km/s) at a given game time
+export function moonStateAt(time: number, missionEpoch: number, mode: MoonEphemerisMode): StateVector {
+  return moonState(epochAt(missionEpoch, time), mode);
+}
+
+// Earth-centred Sun position (km) at a given game time
+export function sunPositionAt(time: number, missionEpoch: number): Position3D {
+  return sunPosition(epochAt(missionEpoch, time));
+}
+
+function createMoon(settings: SimulationSettings, time: number): CelestialBody {
+  return {
+    id: 'moon',
+    ...moonStateAt(time, settings.missionEpoch, settings.moonEphemeris),
+    radius: MOON_RADIUS,
+    mass: 7.342e22,
+    mu: MU_MOON,
+    j2: J2_MOON
+  };
+}
+
+// Apsides, nodes, SOI and shadow boundaries, reentry and surface impact
+export function missionEventDetectors(settings: SimulationSettings, bodies: CelestialBody[]): EventDetector[] {
+  return [
+    ...apsisDetectors(),
+    ...nodeDetectors(),
+    ...soiDetectors(),
+    ...eclipseDetectors('earth'),
+    ...eclipseDetectors('moon'),
+    altitudeDetector('earth', settings.reentryAltitude, {
+      direction: -1,
+      terminal: true,
+      describe: () => `Reentry at ${settings.reentryAltitude.toFixed(1)} km altitude - mission over`
+    }),
+    ...bodies.map((body) => impactDetector(body.id, body.radius))
+  ];
+}
+
+// Trajectory sample that also carries the full spacecraft at that time
+interface SpacecraftSample extends TrajectorySample {
+  spacecraft: Spacecraft;
+}
+
+// Force-model settings for updateOrbitalMotion / perturbingForces at a game time
+export function motionOptions(settings: SimulationSettings, time: number): MotionOptions {
+  const { missionEpoch, integrator, zonalDegree, atmosphere, moonEphemeris, solarGravity, solarRadiationPressure } = settings;
+  return {
+    time,
+    missionEpoch,
+    integrator,
+    zonalDegree,
+    atmosphere,
+    moonEphemeris: (t) => moonStateAt(t, missionEpoch, moonEphemeris),
+    sunEphemeris: (t) => sunPositionAt(t, missionEpoch),
+    solarGravity,
+    solarRadiationPressure
+  };
+}
+
+export class SimulationEngine {
+  settings: SimulationSettings;
+  gameTime = 0;                     // Mission elapsed time (s)
+  spacecraft: Spacecraft;
+  earth: CelestialBody = EARTH;
+  moon: CelestialBody;
+  hazards: Hazard[];
+  missionEvents: MissionEvent[] = [];
+  scheduledBurns: ScheduledBurn[] = [];   // In time order
+  activeBurn: FiniteBurn | null = null;   // Engine running
+  score = 1000;
+  ended = false;
+  endReason: MissionEndReason | null = null;
+
+  private random: SeededRandom;
+  private detectors: EventDetector[];
+
+  constructor(settings: Partial<SimulationSettings> = {}, spacecraft?: Spacecraft) {
+    this.settings = { ...DEFAULT_SETTINGS, ...settings };
+    this.random = createRandom(this.settings.hazardSeed);
+    this.spacecraft = spacecraft ?? createSpacecraft(initialOrbitalElements(this.settings.missionEpoch));
+    this.moon = createMoon(this.settings, 0);
+    this.detectors = missionEventDetectors(this.settings, [this.earth, this.moon]);
+    this.hazards = generateRandomHazards(INITIAL_HAZARD_COUNT, 0, this.random);
+  }
+
+  // Start over from the initial spacecraft, keeping the settings
+  reset(spacecraft?: Spacecraft) {
+    this.random = createRandom(this.settings.hazardSeed);
+    this.gameTime = 0;
+    this.spacecraft = spacecraft ?? createSpacecraft(initialOrbitalElements(this.settings.missionEpoch));
+    this.moon = createMoon(this.settings, 0);
+    this.hazards = generateRandomHazards(INITIAL_HAZARD_COUNT, 0, this.random);
+    this.missionEvents = [];
+    this.scheduledBurns = [];
+    this.activeBurn = null;
+    this.score = 1000;
+    this.ended = false;
+    this.endReason = null;
+  }
+
+  configure(settings: Partial<SimulationSettings>) {
+    this.settings = { ...this.settings, ...settings };
+    this.detectors = missionEventDetectors(this.settings, [this.earth, this.moon]);
+    if (settings.missionEpoch !== undefined) {
+      this.spacecraft = {
+        ...this.spacecraft,
+        orbitalElements: { ...this.spacecraft.orbitalElements, epoch: epochAt(this.settings.missionEpoch, this.gameTime) }
+      };
+    }
+    if (settings.missionEpoch !== undefined || settings.moonEphemeris !== undefined) {
+      this.moon = createMoon(this.settings, this.gameTime);
+    }
+  }
+
+  get epoch(): number {
+    return epochAt(this.settings.missionEpoch, this.gameTime);
+  }
+
+  motionOptions(): MotionOptions {
+    return motionOptions(this.settings, this.gameTime);
+  }
+
+  // Events are stamped with the current mission time and epoch unless they
+  // happened earlier within the step
+  addEvent(event: Omit<MissionEvent, 'id' | 'time' | 'epoch'>, time: number = this.gameTime) {
+    this.missionEvents = [
+      ...this.missionEvents,
+      { ...event, id: this.missionEvents.length, time, epoch: epochAt(this.settings.missionEpoch, time) }
+    ];
+  }
+
+  end(reason: MissionEndReason) {
+    if (this.ended) return;
+    this.ended = true;
+    this.endReason = reason;
+  }
+
+  setSpacecraft(spacecraft: Spacecraft) {
+    const previousFuel = this.spacecraft.fuel;
+    this.spacecraft = spacecraft;
+    this.updateScore();
+
+    // Warn once, when the fuel first drops below the reserve
+    if (previousFuel >= LOW_FUEL && spacecraft.fuel < LOW_FUEL && spacecraft.fuel > 0) {
+      this.addEvent({ type: 'hazard', description: 'Low fuel warning!' });
+    }
+  }
+
+  // Advance the whole simulation by one physics step, stopping on the way
+  // to cut off a finished burn or start a scheduled one at its own time.
+  // A node that comes due while the engine is running waits for it.
+  step(dt: number) {
+    const endTime = this.gameTime + dt;
+    while (!this.ended) {
+      const node = this.scheduledBurns[0];
+      const next = this.activeBurn ? this.activeBurn.endTime : node ? this.nodeStartTime(node) : Infinity;
+      if (next > endTime) break;
+      if (next > this.gameTime) this.advance(next - this.gameTime);
+      if (this.ended) return;
+      if (this.activeBurn) {
+        this.stopBurn();
+      } else {
+        const [burn, ...rest] = this.scheduledBurns;
+        this.scheduledBurns = rest;
+        this.fireScheduledBurn(burn);
+      }
+    }
+    if (!this.ended && endTime - this.gameTime > 1e-9) this.advance(endTime - this.gameTime);
+  }
+
+  // Queue burns; they fire when the mission clock reaches their time
+  scheduleBurns(burns: Omit<ScheduledBurn, 'id'>[]): ScheduledBurn[] {
+    const firstId = this.scheduledBurns.reduce((max, burn) => Math.max(max, burn.id), 0) + 1;
+    const added = burns.map((burn, i) => ({ ...burn, id: firstId + i }));
+    this.scheduledBurns = [...this.scheduledBurns, ...added].sort((a, b) => a.time - b.time);
+    return added;
+  }
+
+  updateScheduledBurn(id: number, changes: Partial<Omit<ScheduledBurn, 'id'>>) {
+    this.scheduledBurns = this.scheduledBurns
+      .map((burn) => (burn.id === id ? { ...burn, ...changes } : burn))
+      .sort((a, b) => a.time - b.time);
+  }
+
+  removeScheduledBurn(id: number) {
+    this.scheduledBurns = this.scheduledBurns.filter((burn) => burn.id !== id);
+  }
+
+  cancelScheduledBurns() {
+    this.scheduledBurns = [];
+  }
+
+  // Propagate without interruption. Trajectory events inside the interval
+  // are located to their exact time; one that ends the mission (reentry,
+  // impact) cuts it short there.
+  private advance(dt: number) {
+    const startTime = this.gameTime;
+    const start = this.spacecraft;
+    const burn = this.activeBurn;
+    const perturbations = [perturbationForce(this.hazards, start.mass)];
+    if (burn) perturbations.push(thrustForce(burn));
+    const options = { ...this.motionOptions(), perturbations };
+    // Spacecraft state anywhere within the step, re-propagated from its
+    // start, with the propellant burned by then
+    const sampleAt = (time: number) => {
+      if (time === startTime) return this.sample(start, time);
+      const burned = burn ? burnMassAt(burn, startTime) - burnMassAt(burn, time) : 0;
+      return this.sample({
+        ...updateOrbitalMotion(start, this.earth, time - startTime, this.moon, options),
+        mass: start.mass - burned,
+        fuel: Math.max(0, start.fuel - burned),
+        isBurning: burn !== null
+      }, time);
+    };
+
+    const end = sampleAt(startTime + dt);
+    const events = detectEvents(this.detectors, sampleAt(startTime), end, sampleAt);
+    const terminal = events.findIndex((event) => event.detector.terminal);
+    const stepEvents = terminal >= 0 ? events.slice(0, terminal + 1) : events;
+    const last = terminal >= 0 ? events[terminal].sample : end;
+    const newTime = last.time;
+
+    this.setSpacecraft(last.spacecraft);
+
+    // Move the Moon along its ephemeris
+    this.moon = { ...this.moon, ...last.moon };
+
+    for (const { detector, rising, sample } of stepEvents) {
+      this.addEvent({
+        type: detector.terminal || detector.kind === 'soiEntry' || detector.kind === 'soiExit' ? 'milestone' : 'orbit',
+        description: detector.describe(sample, rising)
+      }, sample.time);
+      if (detector.kind === 'impact') {
+        this.end(classifyTouchdown(surfaceSpeed(sample.position, sample.velocity, sample.primary)));
+      } else if (detector.terminal) {
+        this.end('reentry');
+      }
+    }
+
+    // Update hazards; perturbations (leaks, outgassing, gusts) keep arriving
+    const newHazards = updateHazards(this.hazards, newTime - startTime);
+    const perturbation = spawnPerturbation(newTime, newTime - startTime, this.random);
+    this.gameTime = newTime;
+    if (perturbation) {
+      newHazards.push(perturbation);
+      this.addEvent({
+        type: 'hazard',
+        description: `${perturbationLabel(perturbation.source)}: ${perturbation.intensity.toFixed(2)} N for ${Math.round(perturbation.duration)} s`
+      });
+    }
+    this.hazards = newHazards;
+  }
+
+  // Half the node's burn time before the node, at the current mass
+  private nodeStartTime(burn: ScheduledBurn): number {
+    const { mass, fuel, thrust, specificImpulse } = this.spacecraft;
+    const deltaV = toMetersPerSecond(kmPerSecond(magnitude(burn.deltaV)));
+    return burn.time - burnDuration(deltaV, mass, fuel, thrust, specificImpulse) / 2;
+  }
+
+  private fireScheduledBurn(burn: ScheduledBurn) {
+    const deltaV = magnitude(burn.deltaV);
+    if (deltaV === 0) return;
+    this.startBurn(burn.deltaV, burn.frame, toMetersPerSecond(kmPerSecond(deltaV)), burn.label);
+  }
+
+  // Light the active stage's engines to deliver deltaV along a direction
+  // held fixed in the given frame. Null if the engine is already running, or
+  // the stage has no engines, no usable Isp or no propellant.
+  startBurn(direction: Position3D, frame: FiniteBurn['frame'], deltaV: MetersPerSecond, label: string = 'Burn'): FiniteBurn | null {
+    const { mass, fuel, thrust, specificImpulse } = this.spacecraft;
+    if (this.activeBurn || magnitude(direction) === 0 || !(thrust > 0) || !(specificImpulse > 0)) return null;
+    const duration = burnDuration(deltaV, mass, fuel, thrust, specificImpulse);
+    if (!(duration > 0)) return null;
+
+    this.activeBurn = {
+      direction,
+      frame,
+      thrust,
+      massFlow: massFlowRate(thrust, specificImpulse),
+      specificImpulse,
+      startTime: this.gameTime,
+      endTime: this.gameTime + duration,
+      startMass: mass,
+      label
+    };
+    this.spacecraft = { ...this.spacecraft, isBurning: true };
+    this.addEvent({
+      type: 'burn',
+      description: `${label} started: ${deltaV.toFixed(2)} m/s over ${duration.toFixed(1)} s`
+    });
+    return this.activeBurn;
+  }
+
+  // Cut the engine, at the planned end of the burn or early
+  stopBurn() {
+    const burn = this.activeBurn;
+    if (!burn) return;
+    const deltaV = burnDeltaV(burn, this.gameTime);
+    this.activeBurn = null;
+    this.spacecraft = { ...this.spacecraft, isBurning: false };
+    this.addEvent({
+      type: 'burn',
+      description: `${burn.label} complete: ${deltaV.toFixed(2)} m/s, Fuel: ${this.spacecraft.fuel.toFixed(1)} kg`,
+      deltaV
+    });
+  }
+
+  // Drop the active stage with whatever it still holds; the next stage up
+  // takes over. Null when only the last stage is left.
+  jettison(): StageDefinition | null {
+    const { design, stage } = this.spacecraft;
+    if (stage >= design.stages.length - 1) return null;
+    this.stopBurn();
+
+    const dropped = design.stages[stage];
+    const next = design.stages[stage + 1];
+    const droppedMass = dropped.dryMass + this.spacecraft.fuel + (dropped.rcs?.propellant ?? 0);
+    this.setSpacecraft({
+      ...this.spacecraft,
+      stage: stage + 1,
+      mass: this.spacecraft.mass - droppedMass,
+      // Full-load figures restart from the stack that is left, so the
+      // dropped stage's mass is not counted as Δv used
+      maxMass: this.spacecraft.mass - droppedMass,
+      fuel: next.propellant,
+      maxFuel: next.propellant,
+      thrust: stageThrust(next),
+      specificImpulse: stageIsp(next)
+    });
+    this.addEvent({
+      type: 'milestone',
+      description: `${dropped.name} jettisoned (${droppedMass.toFixed(1)} kg), ${next.name} active`
+    });
+    return dropped;
+  }
+
+  // Impulsive burn along an inertial direction
+  applyBurn(direction: Position3D, deltaV: MetersPerSecond): BurnResult {
+    const result = applyBurn(this.spacecraft, direction, deltaV, this.spacecraft.primary === 'moon' ? this.moon : this.earth);
+    this.setSpacecraft(result.spacecraft);
+    return result;
+  }
+
+  // Target body and Sun relative to the spacecraft's primary, for burn
+  // directions along their lines of sight. The target is the Moon, or Earth
+  // while orbiting the Moon.
+  referencePoints(): ReferencePoints {
+    const origin = this.spacecraft.primary === 'moon' ? this.moon.position : this.earth.position;
+    const target = this.spacecraft.primary === 'moon' ? this.earth : this.moon;
+    return {
+      target: subtractVectors(target.position, origin),
+      sun: subtractVectors(sunPositionAt(this.gameTime, this.settings.missionEpoch), origin)
+    };
+  }
+
+  // Departure burn from the current state that reaches the target at
+  // arrivalTime. Null when the arrival is not in the future, when aiming at
+  // the Moon from inside its SOI, or when no transfer arc exists.
+  planTransfer(target: TransferTarget, arrivalTime: number, maxRevolutions: number = 0): TransferPlan | null {
+    const { primary, position, velocity } = this.spacecraft;
+    const timeOfFlight = arrivalTime - this.gameTime;
+    if (timeOfFlight <= 0 || (target.kind === 'moon' && primary === 'moon')) return null;
+
+    const moonAtArrival = { ...this.moon, ...moonStateAt(arrivalTime, this.settings.missionEpoch, this.settings.moonEphemeris) };
+    const earthCentred = target.kind === 'moon'
+      ? { position: moonAtArrival.position, velocity: moonAtArrival.velocity }
+      : { position: target.position, velocity: { x: 0, y: 0, z: 0 } };
+    const targetState = primary === 'moon' ? rebaseState(earthCentred, this.earth, moonAtArrival) : earthCentred;
+    const { mu, radius } = primary === 'moon' ? this.moon : this.earth;
+
+    const state = { position, velocity };
+    const transfer = targetTransfer(state, targetState, timeOfFlight, mu, { maxRevolutions });
+    if (!transfer) return null;
+    const arc = transferArc(state, transfer, mu);
+    return {
+      ...transfer,
+      target,
+      primary,
+      departureTime: this.gameTime,
+      arrivalTime,
+      maxRevolutions,
+      targetPosition: targetState.position,
+      arc,
+      lowestAltitude: Math.min(...arc.map(magnitude)) - radius
+    };
+  }
+
+  snapshot(): SimulationSnapshot {
+    return structuredClone({
+      settings: this.settings,
+      gameTime: this.gameTime,
+      spacecraft: this.spacecraft,
+      earth: this.earth,
+      moon: this.moon,
+      hazards: this.hazards,
+      missionEvents: this.missionEvents,
+      scheduledBurns: this.scheduledBurns,
+      activeBurn: this.activeBurn,
+      score: this.score,
+      ended: this.ended,
+      endReason: this.endReason,
+      randomState: this.random.state
+    });
+  }
+
+  restore(snapshot: SimulationSnapshot) {
+    const state = structuredClone(snapshot);
+    this.settings = state.settings;
+    this.gameTime = state.gameTime;
+    this.spacecraft = state.spacecraft;
+    this.earth = state.earth;
+    this.moon = state.moon;
+    this.hazards = state.hazards;
+    this.missionEvents = state.missionEvents;
+    this.scheduledBurns = state.scheduledBurns;
+    this.activeBurn = state.activeBurn;
+    this.score = state.score;
+    this.ended = state.ended;
+    this.endReason = state.endReason;
+    this.detectors = missionEventDetectors(state.settings, [state.earth, state.moon]);
+    this.random = createRandom(state.settings.hazardSeed);
+    this.random.state = state.randomState;
+  }
+
+  private sample(spacecraft: Spacecraft, time: number): SpacecraftSample {
+    const { missionEpoch, moonEphemeris } = this.settings;
+    return {
+      time,
+      primary: spacecraft.primary,
+      position: spacecraft.position,
+      velocity: spacecraft.velocity,
+      moon: moonStateAt(time, missionEpoch, moonEphemeris),
+      sun: sunPositionAt(time, missionEpoch),
+      spacecraft
+    };
+  }
+
+  // Score based on fuel efficiency: propellant still aboard, in the active
+  // stage and those above it, against the design's full load
+  private updateScore() {
+    const { design, stage, fuel } = this.spacecraft;
+    const total = design.stages.reduce((sum, { propellant }) => sum + propellant, 0);
+    const left = design.stages.slice(stage + 1).reduce((sum, { propellant }) => sum + propellant, fuel);
+    this.score = total > 0 ? 1000 * left / total : 0;
+  }
+}